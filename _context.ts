@@ -1,9 +1,39 @@
 import { GetContext, InitialContext } from 'fuse'
+import { Principal, verifyAccessToken } from '@/utils/session'
+import { AppPrincipal, authenticateApp, isAdminKey } from '@/utils/apps'
+import { startDeliveryWorker } from '@/utils/webhooks'
 
-export const getContext = (
+// Webhook deliveries that were still pending when the server stopped
+startDeliveryWorker()
+
+export const getContext = async (
   ctx: InitialContext,
-): GetContext<{ ua: string | null }> => {
+): Promise<
+  GetContext<{
+    ua: string | null
+    ip: string | null
+    origin: string | null
+    principal: Principal | null
+    app: AppPrincipal | null
+    admin: boolean
+  }>
+> => {
+  const authorization = ctx.request.headers.get('authorization')
+  const [scheme, token] = authorization ? authorization.split(' ') : []
+  const apiKey = ctx.request.headers.get('x-api-key')
+
   return {
     ua: ctx.request.headers.get('user-agent'),
+    ip:
+      ctx.request.headers.get('fly-client-ip') ||
+      ctx.request.headers.get('x-forwarded-for')?.split(',')[0].trim() ||
+      null,
+    origin: ctx.request.headers.get('origin'),
+    principal:
+      scheme?.toLowerCase() === 'bearer' && token
+        ? await verifyAccessToken(token)
+        : null,
+    app: apiKey ? await authenticateApp(apiKey) : null,
+    admin: isAdminKey(ctx.request.headers.get('x-admin-key')),
   }
 }
@@ -1,8 +1,18 @@
-import { assign, fromPromise, setup } from "xstate";
-import { checkCircleAccount, generateCircleAccount, generateKey } from "@/utils/crypto";
+import { assertEvent, assign, fromPromise, setup } from "xstate";
+import { generateKey } from "@/utils/crypto";
+import { deriveAccountKeys, deriveKeys, initKdfParams } from "@/utils/kdf";
+import { WalletChain, getWalletProvider } from "@/providers";
+import { authorizePin } from "@/utils/authorize";
+import { addMembership, getAccountStatus, saveAccountWallets } from "@/utils/accounts";
+import { InvalidPinError, getErrorCode } from "@/utils/errors";
+import { emitEvent } from "@/utils/webhooks";
 
 
-export type RegisterAccount = { success: boolean; error?: string; }
+export type RegisterAccount = { success: boolean; error?: string; code?: string; }
+
+// Steps a failed run can be retried from
+export type RegistrationStep = "fetching" | "registeringAccount" | "registeringAppAccount";
+
 export const registerAccountMachine = setup({
     types: {
         context: {} as {
@@ -11,16 +21,38 @@ export const registerAccountMachine = setup({
             isRegistered?: boolean;
             isRegisteredInApp?: boolean;
             error?: string;
+            // Stable code of the error, for clients to branch on
+            code?: string;
             pin?: string;
+            chains?: WalletChain[];
+            failedStep?: RegistrationStep;
         },
-        events: {} as { type: "register"; id: string; appId?: string | null; pin: string },
+        events: {} as
+            | { type: "register"; id: string; appId?: string | null; pin: string; chains: WalletChain[] }
+            // The PIN is never persisted with the run, so retries bring it again
+            | { type: "retry"; pin: string },
         output: {} as RegisterAccount
     },
     actions: {
-        saveIds: assign({
-            id: ({ event }) => event.id,
-            appId: ({ event }) => event.appId,
-            pin: ({ event }) => event.pin,
+        saveIds: assign(({ event }) => {
+            assertEvent(event, "register");
+
+            return {
+                id: event.id,
+                appId: event.appId,
+                pin: event.pin,
+                chains: event.chains,
+            };
+        }),
+        resume: assign(({ event }) => {
+            assertEvent(event, "retry");
+
+            return {
+                pin: event.pin,
+                error: undefined,
+                code: undefined,
+                failedStep: undefined,
+            };
         }),
     },
     actors: {
@@ -29,36 +61,42 @@ export const registerAccountMachine = setup({
                 throw new Error("ID not set");
             }
 
-            // Check if ID is registered in App
-            const appRefId = generateKey([input.id, input.appId].join("%"));
-            const isRegisteredInApp = await checkCircleAccount({ refId: appRefId });
-
-            // Check if ID is registered in Simpl3
-            const refId = generateKey(input.id);
-            const isRegistered = await checkCircleAccount({ refId });
-
-            return {
-                isRegisteredInApp,
-                isRegistered,
-            }
+            return getAccountStatus(generateKey(input.id), input.appId);
         }),
-        registerAccount: fromPromise(async ({ input }: { input: { id?: string; pin?: string } }) => {
+        registerAccount: fromPromise(async ({ input }: { input: { id?: string; pin?: string; chains?: WalletChain[] } }) => {
             if (!input.id) {
                 throw new Error("ID not set");
             }
 
+            if (!input.pin) {
+                throw new Error("PIN not set");
+            }
+
+            if (!input.chains?.length) {
+                throw new Error("Chains not set");
+            }
+
             const refId = generateKey(input.id);
-            const security = generateKey([input.id, input.pin].join("$"));
+            let wallets = await getWalletProvider().list({ refId });
 
-            if (refId && security) {
-                const walletAddress = await generateCircleAccount({ key: refId, security });
+            // A retried run whose wallets were created but not recorded only records them
+            if (wallets.length) {
+                if (!await authorizePin({ id: input.id, pin: input.pin })) {
+                    throw new InvalidPinError();
+                }
+            } else {
+                // New accounts start out on the salted KDF
+                const params = await initKdfParams(refId);
 
-                return walletAddress;
+                const keys = await deriveKeys({ id: input.id, pin: input.pin, params });
+                wallets = await getWalletProvider().create({ refId, keys, chains: input.chains });
             }
 
-            return new Error("Registration failed")
+            await saveAccountWallets(refId, wallets);
+
+            return wallets.map(wallet => wallet.address);
         }),
-        registerAppAccount: fromPromise(async ({ input }: { input: { id?: string; pin?: string; appId?: string | null } }) => {
+        registerAppAccount: fromPromise(async ({ input }: { input: { id?: string; pin?: string; appId?: string | null; chains?: WalletChain[] } }) => {
             if (!input.id) {
                 throw new Error("ID not set");
             }
@@ -67,16 +105,35 @@ export const registerAccountMachine = setup({
                 throw new Error("App ID not set");
             }
 
-            const refId = generateKey(input.id);
-            const security = generateKey([input.id, input.pin].join("$"));
+            if (!input.pin) {
+                throw new Error("PIN not set");
+            }
 
-            if (refId && security) {
-                const walletAddress = await generateCircleAccount({ key: refId, appId: input.appId, security });
+            if (!input.chains?.length) {
+                throw new Error("Chains not set");
+            }
+
+            // Retried runs may bring a different PIN than the one the account was created with
+            if (!await authorizePin({ id: input.id, pin: input.pin })) {
+                throw new InvalidPinError();
+            }
+
+            const refId = generateKey(input.id);
+            const provider = getWalletProvider(input.appId);
+            let wallets = await provider.list({ refId, appId: input.appId });
 
-                return walletAddress;
+            if (!wallets.length) {
+                const keys = await deriveAccountKeys({ id: input.id, pin: input.pin });
+                wallets = await provider.create({ refId, appId: input.appId, keys, chains: input.chains });
             }
 
-            return new Error("Registration failed")
+            await addMembership(refId, input.appId, wallets);
+            await emitEvent(input.appId, "ACCOUNT_REGISTERED", {
+                accountId: refId,
+                wallets: wallets.map(({ address, chain }) => ({ address, chain })),
+            });
+
+            return wallets.map(wallet => wallet.address);
         }),
     },
     guards: {
@@ -89,6 +146,9 @@ export const registerAccountMachine = setup({
         hasAppId: function ({ context }) {
             return context.appId && context.appId.length > 0 || false
         },
+        failedAt: function ({ context }, step: RegistrationStep) {
+            return context.failedStep === step;
+        },
     },
     schemas: {
         events: {
@@ -138,7 +198,9 @@ export const registerAccountMachine = setup({
                 onError: {
                     target: "error",
                     actions: assign({
-                        error: "Failed fetching login details"
+                        error: "Failed fetching login details",
+                        code: ({ event }) => getErrorCode(event.error, "REGISTRATION_FAILED"),
+                        failedStep: "fetching",
                     })
                 },
                 src: "fetchLogins",
@@ -161,20 +223,41 @@ export const registerAccountMachine = setup({
                 {
                     target: "error",
                     actions: assign({
-                        error: "Account already registered"
+                        error: "Account already registered",
+                        code: "ACCOUNT_EXISTS",
                     })
                 },
             ],
         },
+        // Not final, failed steps can be retried. Runs rejected by validation stay here.
         error: {
-            type: "final",
+            on: {
+                retry: [
+                    {
+                        target: "fetching",
+                        guard: { type: "failedAt", params: "fetching" },
+                        actions: { type: "resume" },
+                    },
+                    {
+                        target: "registeringAccount",
+                        guard: { type: "failedAt", params: "registeringAccount" },
+                        actions: { type: "resume" },
+                    },
+                    {
+                        target: "registeringAppAccount",
+                        guard: { type: "failedAt", params: "registeringAppAccount" },
+                        actions: { type: "resume" },
+                    },
+                ],
+            },
         },
         registeringAccount: {
             invoke: {
                 id: "registerAccount",
                 input: ({ context }) => ({
                     id: context.id,
-                    pin: context.pin
+                    pin: context.pin,
+                    chains: context.chains,
                 }),
                 onDone: [
                     {
@@ -190,7 +273,9 @@ export const registerAccountMachine = setup({
                 onError: {
                     target: "error",
                     actions: assign({
-                        error: "Failed registering account"
+                        error: "Failed registering account",
+                        code: ({ event }) => getErrorCode(event.error, "REGISTRATION_FAILED"),
+                        failedStep: "registeringAccount",
                     })
                 },
                 src: "registerAccount",
@@ -203,6 +288,7 @@ export const registerAccountMachine = setup({
                     id: context.id,
                     pin: context.pin,
                     appId: context.appId,
+                    chains: context.chains,
                 }),
                 onDone: {
                     target: "registered",
@@ -210,7 +296,9 @@ export const registerAccountMachine = setup({
                 onError: {
                     target: "error",
                     actions: assign({
-                        error: "Failed registering app account"
+                        error: "Failed registering app account",
+                        code: ({ event }) => getErrorCode(event.error, "REGISTRATION_FAILED"),
+                        failedStep: "registeringAppAccount",
                     })
                 },
                 src: "registerAppAccount",
@@ -223,6 +311,7 @@ export const registerAccountMachine = setup({
     },
     output: ({ context }) => ({
         success: !context.error || context.error.length === 0,
-        error: context.error
+        error: context.error,
+        code: context.code,
     })
 });
\ No newline at end of file
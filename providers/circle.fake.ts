@@ -0,0 +1,147 @@
+import crypto from "crypto";
+import { Keypair } from "@solana/web3.js";
+import bs58 from "bs58";
+import type {
+    CreateWalletsInput,
+    ListWalletsInput,
+    SignMessageInput,
+    SignTransactionInput,
+    UpdateWalletInput,
+} from "@circle-fin/developer-controlled-wallets";
+import type { Wallet } from "@circle-fin/developer-controlled-wallets/dist/types/clients/developer-controlled-wallets";
+
+import { signDetached } from "@/utils/crypto";
+import { deserializeTransaction, getMessageBytes, partialSignTransaction, serializeTransaction } from "@/utils/transaction";
+
+/**
+ * The part of the developer-controlled wallets client the engine relies on.
+ * The real client satisfies it structurally, so the fake can stand in for it.
+ */
+export type CircleClient = {
+    createWallets(input: CreateWalletsInput): Promise<{ data?: { wallets: Wallet[] } }>;
+    listWallets(input: ListWalletsInput): Promise<{ data?: { wallets: Wallet[] } }>;
+    updateWallet(input: UpdateWalletInput): Promise<{ data?: { wallet: Wallet } }>;
+    signTransaction(input: SignTransactionInput): Promise<{ data?: { signature: string; signedTransaction: string } }>;
+    signMessage(input: SignMessageInput): Promise<{ data?: { signature: string } }>;
+};
+
+type FakeWallet = Wallet & { signer: Keypair; };
+
+const wallets: FakeWallet[] = [];
+
+function toWallet({ signer: _, ...wallet }: FakeWallet): Wallet {
+    return { ...wallet };
+}
+
+function findWallet(id: string) {
+    const wallet = wallets.find(wallet => wallet.id === id);
+
+    if (!wallet) {
+        throw new Error(`Wallet ${id} not found`);
+    }
+
+    return wallet;
+}
+
+function isSolana(wallet: Wallet) {
+    return wallet.blockchain === "SOL" || wallet.blockchain === "SOL-DEVNET";
+}
+
+/**
+ * In-memory stand-in for Circle's developer-controlled wallets API, selected
+ * with `CIRCLE_OFFLINE=true`. Solana wallets get real keypairs so signing works,
+ * EVM wallets only get a random address.
+ */
+export const fakeCircleClient: CircleClient = {
+    async createWallets({ blockchains, count, metadata, walletSetId }) {
+        const now = new Date().toISOString();
+        const created: FakeWallet[] = [];
+
+        for (const blockchain of blockchains) {
+            for (let i = 0; i < count; i++) {
+                const signer = Keypair.generate();
+
+                const wallet: FakeWallet = {
+                    id: crypto.randomUUID(),
+                    address: blockchain.startsWith("SOL")
+                        ? signer.publicKey.toBase58()
+                        : "0x" + crypto.randomBytes(20).toString("hex"),
+                    blockchain,
+                    createDate: now,
+                    updateDate: now,
+                    custodyType: "DEVELOPER",
+                    name: metadata?.[i]?.name,
+                    refId: metadata?.[i]?.refId,
+                    state: "LIVE",
+                    walletSetId,
+                    signer,
+                };
+
+                created.push(wallet);
+            }
+        }
+
+        wallets.push(...created);
+
+        return { data: { wallets: created.map(toWallet) } };
+    },
+
+    async listWallets({ walletSetId, refId, address, blockchain } = {}) {
+        const matches = wallets.filter(wallet =>
+            (!walletSetId || wallet.walletSetId === walletSetId) &&
+            (!refId || wallet.refId === refId) &&
+            (!address || wallet.address === address) &&
+            (!blockchain || wallet.blockchain === blockchain)
+        );
+
+        return { data: { wallets: matches.map(toWallet) } };
+    },
+
+    async updateWallet({ id, name, refId }) {
+        const wallet = findWallet(id);
+
+        if (name !== undefined) {
+            wallet.name = name;
+        }
+
+        if (refId !== undefined) {
+            wallet.refId = refId;
+        }
+
+        wallet.updateDate = new Date().toISOString();
+
+        return { data: { wallet: toWallet(wallet) } };
+    },
+
+    async signTransaction({ walletId, rawTransaction }) {
+        const wallet = findWallet(walletId);
+
+        if (!isSolana(wallet)) {
+            throw new Error("Only Solana transactions can be signed offline");
+        }
+
+        const transaction = partialSignTransaction(deserializeTransaction(rawTransaction), wallet.signer);
+        const signature = signDetached(getMessageBytes(transaction), wallet.signer.secretKey);
+
+        return {
+            data: {
+                signature: bs58.encode(signature),
+                signedTransaction: serializeTransaction(transaction),
+            },
+        };
+    },
+
+    async signMessage({ walletId, message, encodedByHex }) {
+        const wallet = findWallet(walletId);
+
+        if (!isSolana(wallet)) {
+            throw new Error("Only Solana messages can be signed offline");
+        }
+
+        const bytes = encodedByHex
+            ? Buffer.from(message.replace(/^0x/, ""), "hex")
+            : Buffer.from(message, "utf-8");
+
+        return { data: { signature: bs58.encode(signDetached(bytes, wallet.signer.secretKey)) } };
+    },
+};
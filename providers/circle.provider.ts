@@ -0,0 +1,263 @@
+import "dotenv/config";
+import { initiateDeveloperControlledWalletsClient } from "@circle-fin/developer-controlled-wallets";
+import bs58 from "bs58";
+
+import { CircleClient, fakeCircleClient } from "@/providers/circle.fake";
+import { getAppRepository } from "@/repositories";
+import { ProviderUnavailableError } from "@/utils/errors";
+import { isSolanaChain } from "@/providers/wallet.provider";
+import type { WalletAccount, WalletChain, WalletProvider, WalletRef } from "@/providers/wallet.provider";
+
+const secret = process.env.CIRCLE_CYPHER;
+const apiKey = process.env.CIRCLE_API_KEY;
+const defaultAppId = process.env.CIRCLE_DEFAULT_SET || "";
+const offline = process.env.CIRCLE_OFFLINE === "true";
+
+// Requests that never got an answer, or were throttled or failed on Circle's side
+function isUnavailable(e: unknown) {
+    const error = e as { isAxiosError?: boolean; response?: { status: number } };
+
+    if (!error?.isAxiosError) {
+        return false;
+    }
+
+    return !error.response || error.response.status === 429 || error.response.status >= 500;
+}
+
+/** Reports Circle outages and rate limits as `PROVIDER_UNAVAILABLE`, so clients know to retry. */
+function withAvailability(client: CircleClient): CircleClient {
+    const call = <T>(request: () => Promise<T>) => request().catch((e) => {
+        if (isUnavailable(e)) {
+            console.log(e);
+            throw new ProviderUnavailableError();
+        }
+
+        throw e;
+    });
+
+    return {
+        createWallets: (input) => call(() => client.createWallets(input)),
+        listWallets: (input) => call(() => client.listWallets(input)),
+        updateWallet: (input) => call(() => client.updateWallet(input)),
+        signTransaction: (input) => call(() => client.signTransaction(input)),
+        signMessage: (input) => call(() => client.signMessage(input)),
+    };
+}
+
+function createCircleClient(): CircleClient {
+    if (offline) {
+        return fakeCircleClient;
+    }
+
+    if (!apiKey || !secret) {
+        throw new Error("Circle credentials are undefined");
+    }
+
+    return withAvailability(initiateDeveloperControlledWalletsClient({
+        apiKey,
+        entitySecret: secret,
+    }));
+}
+
+// Apps registered before the registry used their id as the wallet set
+async function getWalletSetId(appId?: string | null) {
+    if (!appId) {
+        return defaultAppId;
+    }
+
+    const app = await getAppRepository().findById(appId);
+
+    return app?.walletSetId || appId;
+}
+
+async function listWallets({ refId, appId }: WalletRef) {
+    const circleDeveloperSdk = createCircleClient();
+
+    const listWalletsResponse = await circleDeveloperSdk.listWallets({
+        walletSetId: await getWalletSetId(appId),
+        refId
+    });
+
+    return listWalletsResponse.data?.wallets || [];
+}
+
+function toAccount(wallet: { id: string; address: string; blockchain: string; }): WalletAccount {
+    return { id: wallet.id, address: wallet.address, chain: wallet.blockchain as WalletChain };
+}
+
+// Messages and transactions are Solana only, every other chain is just an address for now
+async function getSigningWallet(ref: WalletRef) {
+    const wallets = await listWallets(ref);
+
+    return wallets.find(wallet => isSolanaChain(wallet.blockchain as WalletChain));
+}
+
+/**
+ * Developer-controlled wallets, one wallet set per app. The derived security
+ * value is stored as the wallet name and Circle holds the keys.
+ */
+export const circleProvider: WalletProvider = {
+    name: "circle",
+
+    async create({ refId, appId, keys, chains }) {
+        const circleDeveloperSdk = createCircleClient();
+
+        // Circle only offers smart contract accounts on EVM chains, EOA works everywhere
+        const response = await circleDeveloperSdk.createWallets({
+            accountType: "EOA",
+            blockchains: chains,
+            count: 1,
+            walletSetId: await getWalletSetId(appId),
+            metadata: [
+                {
+                    refId,
+                    name: keys.security
+                },
+            ],
+        });
+
+        const wallets = response.data?.wallets || [];
+
+        if (!wallets.length) {
+            throw new Error("Circle did not return a wallet");
+        }
+
+        return wallets.map(toAccount);
+    },
+
+    async lookup(ref) {
+        try {
+            const wallets = await listWallets(ref);
+            const wallet = wallets.find(wallet => isSolanaChain(wallet.blockchain as WalletChain)) || wallets[0];
+
+            return wallet && wallet.address != null ? toAccount(wallet) : null;
+        } catch (e) {
+            if (e instanceof ProviderUnavailableError) {
+                throw e;
+            }
+
+            return null;
+        }
+    },
+
+    async list(ref) {
+        const wallets = await listWallets(ref);
+
+        return wallets.map(toAccount);
+    },
+
+    async verifySecurity({ keys, ...ref }) {
+        const [wallet] = await listWallets(ref);
+
+        if (wallet && wallet.name === keys.security) {
+            return toAccount(wallet);
+        }
+
+        return null;
+    },
+
+    async sign({ authorization, tx, ...ref }) {
+        const wallet = await getSigningWallet(ref);
+
+        if (!wallet || (authorization.method === "pin" && wallet.name !== authorization.keys.security)) {
+            throw new Error("Wallet not found");
+        }
+
+        const circleDeveloperSdk = createCircleClient();
+        const signResponse = await circleDeveloperSdk.signTransaction({
+            walletId: wallet.id,
+            rawTransaction: tx,
+        });
+
+        if (!signResponse.data?.signedTransaction) {
+            throw new Error("Circle did not return a signed transaction");
+        }
+
+        return signResponse.data.signedTransaction;
+    },
+
+    async signAll({ authorization, txs, ...ref }) {
+        const wallet = await getSigningWallet(ref);
+
+        if (!wallet || (authorization.method === "pin" && wallet.name !== authorization.keys.security)) {
+            throw new Error("Wallet not found");
+        }
+
+        const circleDeveloperSdk = createCircleClient();
+
+        // Circle signs one transaction per request, in order to keep its rate limits predictable
+        const results: PromiseSettledResult<string>[] = [];
+
+        for (const tx of txs) {
+            try {
+                const signResponse = await circleDeveloperSdk.signTransaction({
+                    walletId: wallet.id,
+                    rawTransaction: tx,
+                });
+
+                if (!signResponse.data?.signedTransaction) {
+                    throw new Error("Circle did not return a signed transaction");
+                }
+
+                results.push({ status: "fulfilled", value: signResponse.data.signedTransaction });
+            } catch (e) {
+                results.push({ status: "rejected", reason: e });
+            }
+        }
+
+        return results;
+    },
+
+    async signMessage({ keys, message, ...ref }) {
+        const wallet = await getSigningWallet(ref);
+
+        if (!wallet || wallet.name !== keys.security) {
+            throw new Error("Wallet not found");
+        }
+
+        const circleDeveloperSdk = createCircleClient();
+        const signResponse = await circleDeveloperSdk.signMessage({
+            walletId: wallet.id,
+            encodedByHex: true,
+            message: "0x" + Buffer.from(message).toString("hex"),
+        });
+
+        const signature = signResponse.data?.signature || "";
+
+        return {
+            publicKey: wallet.address,
+            signature: signature.startsWith("0x")
+                ? Buffer.from(signature.slice(2), "hex")
+                : Buffer.from(bs58.decode(signature)),
+        };
+    },
+
+    async rekey({ current, next, ...ref }) {
+        const circleDeveloperSdk = createCircleClient();
+        const wallets = await listWallets(ref);
+
+        if (current && wallets.some(wallet => !current.some(keys => keys.security === wallet.name))) {
+            throw new Error("Invalid PIN");
+        }
+
+        const updated: { id: string; name?: string; }[] = [];
+
+        const undo = async () => {
+            for (const wallet of updated.reverse()) {
+                await circleDeveloperSdk.updateWallet({ id: wallet.id, name: wallet.name || "" });
+            }
+        };
+
+        try {
+            for (const wallet of wallets) {
+                await circleDeveloperSdk.updateWallet({ id: wallet.id, name: next.security });
+                updated.push({ id: wallet.id, name: wallet.name });
+            }
+        } catch (e) {
+            await undo();
+            throw e;
+        }
+
+        return undo;
+    },
+};
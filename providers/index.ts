@@ -0,0 +1,62 @@
+import "dotenv/config";
+
+import { circleProvider } from "@/providers/circle.provider";
+import { localProvider } from "@/providers/local.provider";
+import { memoryProvider } from "@/providers/memory.provider";
+import { walletChains } from "@/providers/wallet.provider";
+import type { WalletChain, WalletProvider, WalletProviderName } from "@/providers/wallet.provider";
+
+export type { MessageSignature, WalletAccount, WalletAuthorization, WalletChain, WalletProvider, WalletProviderName } from "@/providers/wallet.provider";
+export { isSolanaChain, walletChains } from "@/providers/wallet.provider";
+
+const providers: Record<WalletProviderName, WalletProvider> = {
+    circle: circleProvider,
+    local: localProvider,
+    memory: memoryProvider,
+};
+
+function isProviderName(value: string): value is WalletProviderName {
+    return value in providers;
+}
+
+const defaultProvider = process.env.WALLET_PROVIDER || "circle";
+
+// WALLET_PROVIDERS=appA=local,appB=circle overrides the default for single apps
+const appProviders = new Map(
+    (process.env.WALLET_PROVIDERS || "")
+        .split(",")
+        .map(entry => entry.trim().split("="))
+        .filter(([appId, name]) => appId && name)
+        .map(([appId, name]) => [appId, name])
+);
+
+export function getWalletProvider(appId?: string | null): WalletProvider {
+    const name = (appId && appProviders.get(appId)) || defaultProvider;
+
+    if (!isProviderName(name)) {
+        throw new Error(`Unknown wallet provider ${name}`);
+    }
+
+    return providers[name];
+}
+
+function isChain(value: string): value is WalletChain {
+    return (walletChains as readonly string[]).includes(value);
+}
+
+// WALLET_CHAINS=SOL,ETH picks the chains new accounts get when none are requested
+const defaultChains = (process.env.WALLET_CHAINS || "SOL-DEVNET")
+    .split(",")
+    .map(chain => chain.trim())
+    .filter(Boolean);
+
+export function getWalletChains(chains?: string[] | null): WalletChain[] {
+    const selected = [...new Set(chains?.length ? chains : defaultChains)];
+    const unknown = selected.filter(chain => !isChain(chain));
+
+    if (unknown.length) {
+        throw new Error(`Unknown chain ${unknown.join(", ")}`);
+    }
+
+    return selected as WalletChain[];
+}
@@ -0,0 +1,178 @@
+import "dotenv/config";
+import { Keypair } from "@solana/web3.js";
+import bs58 from "bs58";
+
+import { getCredentialRepository } from "@/repositories";
+import { decryptData, encryptData, generateAccount, isLegacyCiphertext, signDetached } from "@/utils/crypto";
+import { deserializeTransaction, partialSignTransaction, serializeTransaction } from "@/utils/transaction";
+import type { DerivedKeys } from "@/utils/kdf";
+import { isSolanaChain } from "@/providers/wallet.provider";
+import type { WalletAccount, WalletChain, WalletProvider, WalletRef } from "@/providers/wallet.provider";
+import type { CredentialModel } from "@/repositories";
+
+function toKey({ refId, appId }: WalletRef) {
+    return { id: refId, appId: appId || null };
+}
+
+function toAccounts(entry: CredentialModel, address: string): WalletAccount[] {
+    const chains: WalletChain[] = entry.chains?.length ? entry.chains : ["SOL-DEVNET"];
+
+    return chains.map(chain => ({ id: entry.id, address, chain }));
+}
+
+async function unlock(ref: WalletRef, keys: DerivedKeys) {
+    const repository = getCredentialRepository();
+    const entry = await repository.find(toKey(ref));
+
+    if (!entry) {
+        return null;
+    }
+
+    let data;
+    try {
+        data = decryptData(entry.credentials, keys.cipherKey);
+    } catch (e) {
+        // A wrong key fails the decryption itself
+        return null;
+    }
+
+    if (!data) {
+        return null;
+    }
+
+    // Records written before the envelope format are upgraded on first use
+    if (isLegacyCiphertext(entry.credentials) || !entry.address) {
+        await repository.replace(toKey(ref), entry.credentials, {
+            credentials: encryptData(data, keys.cipherKey),
+            address: data.pubKey,
+        });
+    }
+
+    return {
+        entry,
+        signer: Keypair.fromSecretKey(bs58.decode(data.privKey)),
+    };
+}
+
+/**
+ * Custodial keystore in the `auth` collection, each keypair encrypted with the
+ * cipher key derived from the user's PIN. Signing always needs the PIN.
+ */
+export const localProvider: WalletProvider = {
+    name: "local",
+
+    async create({ keys, chains, ...ref }) {
+        // One ed25519 keypair serves every Solana cluster, other curves are not supported here
+        if (!chains.every(isSolanaChain)) {
+            throw new Error("Local wallets only support Solana");
+        }
+
+        const { address, credentials } = await generateAccount(keys.cipherKey);
+        const entry = { ...toKey(ref), address, chains, credentials };
+
+        await getCredentialRepository().insert(entry);
+
+        return toAccounts(entry, address);
+    },
+
+    async lookup(ref) {
+        const entry = await getCredentialRepository().find(toKey(ref));
+
+        return entry ? toAccounts(entry, entry.address || "")[0] : null;
+    },
+
+    async list(ref) {
+        const entry = await getCredentialRepository().find(toKey(ref));
+
+        return entry ? toAccounts(entry, entry.address || "") : [];
+    },
+
+    async verifySecurity({ keys, ...ref }) {
+        const unlocked = await unlock(ref, keys);
+
+        return unlocked ? toAccounts(unlocked.entry, unlocked.signer.publicKey.toBase58())[0] : null;
+    },
+
+    async sign({ authorization, tx, ...ref }) {
+        if (authorization.method !== "pin") {
+            throw new Error("Local wallets can only be unlocked with the PIN");
+        }
+
+        const unlocked = await unlock(ref, authorization.keys);
+
+        if (!unlocked) {
+            throw new Error("Wallet not found");
+        }
+
+        const transaction = partialSignTransaction(deserializeTransaction(tx), unlocked.signer);
+
+        return serializeTransaction(transaction);
+    },
+
+    async signAll({ authorization, txs, ...ref }) {
+        if (authorization.method !== "pin") {
+            throw new Error("Local wallets can only be unlocked with the PIN");
+        }
+
+        const unlocked = await unlock(ref, authorization.keys);
+
+        if (!unlocked) {
+            throw new Error("Wallet not found");
+        }
+
+        return Promise.allSettled(txs.map(async tx => serializeTransaction(partialSignTransaction(deserializeTransaction(tx), unlocked.signer))));
+    },
+
+    async signMessage({ keys, message, ...ref }) {
+        const unlocked = await unlock(ref, keys);
+
+        if (!unlocked) {
+            throw new Error("Wallet not found");
+        }
+
+        return {
+            publicKey: unlocked.signer.publicKey.toBase58(),
+            signature: signDetached(message, unlocked.signer.secretKey),
+        };
+    },
+
+    async rekey({ current, next, ...ref }) {
+        const repository = getCredentialRepository();
+        const entry = await repository.find(toKey(ref));
+
+        if (!entry) {
+            return async () => { };
+        }
+
+        if (!current) {
+            throw new Error("Local credentials cannot be recovered without the current PIN");
+        }
+
+        let data = null;
+        for (const keys of current) {
+            try {
+                data = decryptData(entry.credentials, keys.cipherKey);
+                break;
+            } catch (e) {
+                continue;
+            }
+        }
+
+        if (!data) {
+            throw new Error("Invalid PIN");
+        }
+
+        const credentials = encryptData(data, next.cipherKey);
+
+        // Guard against a concurrent change having replaced the blob meanwhile
+        const replaced = await repository.replace(toKey(ref), entry.credentials, { credentials });
+
+        if (!replaced) {
+            throw new Error("Credentials changed during PIN rotation");
+        }
+
+        return async () => {
+            await repository.replace(toKey(ref), credentials, { credentials: entry.credentials });
+        };
+    },
+};
@@ -0,0 +1,103 @@
+import crypto from "crypto";
+import bs58 from "bs58";
+import { Keypair, PublicKey, SystemProgram, Transaction } from "@solana/web3.js";
+import { describe, expect, it } from "vitest";
+
+import { memoryProvider } from "@/providers/memory.provider";
+import { verifyDetached } from "@/utils/crypto";
+import { createKdfParams, deriveKeys } from "@/utils/kdf";
+import { deserializeTransaction, serializeTransaction } from "@/utils/transaction";
+
+function newRef() {
+    return { refId: crypto.randomUUID(), appId: null };
+}
+
+function keysFor(pin: string) {
+    return deriveKeys({ id: "account", pin, params: createKdfParams() });
+}
+
+function transferFrom(address: string) {
+    const from = new PublicKey(address);
+    const transaction = new Transaction({ feePayer: from, recentBlockhash: "11111111111111111111111111111111" })
+        .add(SystemProgram.transfer({ fromPubkey: from, toPubkey: Keypair.generate().publicKey, lamports: 1 }));
+
+    return serializeTransaction(transaction);
+}
+
+describe("memoryProvider", () => {
+    it("creates one wallet per account and app", async () => {
+        const ref = newRef();
+        const keys = await keysFor("1234");
+
+        const accounts = await memoryProvider.create({ ...ref, keys, chains: ["SOL-DEVNET"] });
+
+        expect(accounts).toEqual([{ id: expect.any(String), address: expect.any(String), chain: "SOL-DEVNET" }]);
+        expect(await memoryProvider.lookup(ref)).toEqual(accounts[0]);
+        expect(await memoryProvider.list(ref)).toEqual(accounts);
+        expect(await memoryProvider.list({ ...ref, appId: "app" })).toEqual([]);
+        await expect(memoryProvider.create({ ...ref, keys, chains: ["SOL-DEVNET"] })).rejects.toThrow("Wallet already exists");
+    });
+
+    it("only supports Solana", async () => {
+        await expect(memoryProvider.create({ ...newRef(), keys: await keysFor("1234"), chains: ["ETH"] })).rejects.toThrow();
+    });
+
+    it("unlocks the wallet with the matching keys only", async () => {
+        const ref = newRef();
+        const keys = await keysFor("1234");
+        const [account] = await memoryProvider.create({ ...ref, keys, chains: ["SOL"] });
+
+        expect(await memoryProvider.verifySecurity({ ...ref, keys })).toEqual(account);
+        expect(await memoryProvider.verifySecurity({ ...ref, keys: await keysFor("0000") })).toBeNull();
+    });
+
+    it("partially signs transactions", async () => {
+        const ref = newRef();
+        const keys = await keysFor("1234");
+        const [account] = await memoryProvider.create({ ...ref, keys, chains: ["SOL"] });
+
+        const signed = deserializeTransaction(await memoryProvider.sign({ ...ref, authorization: { method: "pin", keys }, tx: transferFrom(account.address) }));
+
+        expect((signed as Transaction).verifySignatures()).toBe(true);
+        await expect(memoryProvider.sign({ ...ref, authorization: { method: "pin", keys: await keysFor("0000") }, tx: transferFrom(account.address) })).rejects.toThrow();
+    });
+
+    it("settles each transaction of a batch on its own", async () => {
+        const ref = newRef();
+        const keys = await keysFor("1234");
+        const [account] = await memoryProvider.create({ ...ref, keys, chains: ["SOL"] });
+
+        const [signed, broken] = await memoryProvider.signAll({ ...ref, authorization: { method: "passkey" }, txs: [transferFrom(account.address), "broken"] });
+
+        expect(signed.status).toBe("fulfilled");
+        expect(broken.status).toBe("rejected");
+    });
+
+    it("signs messages with the wallet key", async () => {
+        const ref = newRef();
+        const keys = await keysFor("1234");
+        const [account] = await memoryProvider.create({ ...ref, keys, chains: ["SOL"] });
+        const message = Buffer.from("hello");
+
+        const { publicKey, signature } = await memoryProvider.signMessage({ ...ref, keys, message });
+
+        expect(publicKey).toBe(account.address);
+        expect(verifyDetached(message, signature, bs58.decode(publicKey))).toBe(true);
+    });
+
+    it("moves the wallet to new keys and back", async () => {
+        const ref = newRef();
+        const current = await keysFor("1234");
+        const next = await keysFor("5678");
+        await memoryProvider.create({ ...ref, keys: current, chains: ["SOL"] });
+
+        await expect(memoryProvider.rekey({ ...ref, current: [next], next })).rejects.toThrow("Invalid PIN");
+
+        const undo = await memoryProvider.rekey({ ...ref, current: [current], next });
+        expect(await memoryProvider.verifySecurity({ ...ref, keys: next })).not.toBeNull();
+        expect(await memoryProvider.verifySecurity({ ...ref, keys: current })).toBeNull();
+
+        await undo();
+        expect(await memoryProvider.verifySecurity({ ...ref, keys: current })).not.toBeNull();
+    });
+});
@@ -0,0 +1,118 @@
+import crypto from "crypto";
+import { Keypair } from "@solana/web3.js";
+
+import { signDetached } from "@/utils/crypto";
+import { deserializeTransaction, partialSignTransaction, serializeTransaction } from "@/utils/transaction";
+import { isSolanaChain } from "@/providers/wallet.provider";
+import type { WalletAccount, WalletChain, WalletProvider, WalletRef } from "@/providers/wallet.provider";
+
+type MemoryWallet = {
+    id: string;
+    security: string;
+    chains: WalletChain[];
+    signer: Keypair;
+};
+
+const wallets = new Map<string, MemoryWallet>();
+
+function toKey({ refId, appId }: WalletRef) {
+    return [appId || "", refId].join(":");
+}
+
+function toAccounts(wallet: MemoryWallet): WalletAccount[] {
+    return wallet.chains.map(chain => ({ id: wallet.id, address: wallet.signer.publicKey.toBase58(), chain }));
+}
+
+/**
+ * Keeps keypairs in process memory, for local development and tests only.
+ * Everything is gone once the process exits.
+ */
+export const memoryProvider: WalletProvider = {
+    name: "memory",
+
+    async create({ keys, chains, ...ref }) {
+        if (wallets.has(toKey(ref))) {
+            throw new Error("Wallet already exists");
+        }
+
+        if (!chains.every(isSolanaChain)) {
+            throw new Error("Memory wallets only support Solana");
+        }
+
+        const wallet = { id: crypto.randomUUID(), security: keys.security, chains, signer: Keypair.generate() };
+
+        wallets.set(toKey(ref), wallet);
+
+        return toAccounts(wallet);
+    },
+
+    async lookup(ref) {
+        const wallet = wallets.get(toKey(ref));
+
+        return wallet ? toAccounts(wallet)[0] : null;
+    },
+
+    async list(ref) {
+        const wallet = wallets.get(toKey(ref));
+
+        return wallet ? toAccounts(wallet) : [];
+    },
+
+    async verifySecurity({ keys, ...ref }) {
+        const wallet = wallets.get(toKey(ref));
+
+        return wallet && wallet.security === keys.security ? toAccounts(wallet)[0] : null;
+    },
+
+    async sign({ authorization, tx, ...ref }) {
+        const wallet = wallets.get(toKey(ref));
+
+        if (!wallet || (authorization.method === "pin" && wallet.security !== authorization.keys.security)) {
+            throw new Error("Wallet not found");
+        }
+
+        return serializeTransaction(partialSignTransaction(deserializeTransaction(tx), wallet.signer));
+    },
+
+    async signAll({ authorization, txs, ...ref }) {
+        const wallet = wallets.get(toKey(ref));
+
+        if (!wallet || (authorization.method === "pin" && wallet.security !== authorization.keys.security)) {
+            throw new Error("Wallet not found");
+        }
+
+        return Promise.allSettled(txs.map(async tx => serializeTransaction(partialSignTransaction(deserializeTransaction(tx), wallet.signer))));
+    },
+
+    async signMessage({ keys, message, ...ref }) {
+        const wallet = wallets.get(toKey(ref));
+
+        if (!wallet || wallet.security !== keys.security) {
+            throw new Error("Wallet not found");
+        }
+
+        return {
+            publicKey: wallet.signer.publicKey.toBase58(),
+            signature: signDetached(message, wallet.signer.secretKey),
+        };
+    },
+
+    async rekey({ current, next, ...ref }) {
+        const wallet = wallets.get(toKey(ref));
+
+        if (!wallet) {
+            return async () => { };
+        }
+
+        if (current && !current.some(keys => keys.security === wallet.security)) {
+            throw new Error("Invalid PIN");
+        }
+
+        const previous = wallet.security;
+        wallet.security = next.security;
+
+        return async () => {
+            wallet.security = previous;
+        };
+    },
+};
@@ -0,0 +1,81 @@
+import type { DerivedKeys } from "@/utils/kdf";
+
+export type WalletProviderName = "circle" | "local" | "memory";
+
+// Same identifiers as Circle's `Blockchain`, testnets included
+export const walletChains = [
+    "SOL",
+    "SOL-DEVNET",
+    "ETH",
+    "ETH-SEPOLIA",
+    "MATIC",
+    "MATIC-AMOY",
+    "AVAX",
+    "AVAX-FUJI",
+    "ARB",
+    "ARB-SEPOLIA",
+] as const;
+
+export type WalletChain = typeof walletChains[number];
+
+export function isSolanaChain(chain: WalletChain) {
+    return chain === "SOL" || chain === "SOL-DEVNET";
+}
+
+export type WalletAccount = {
+    id: string;
+    address: string;
+    chain: WalletChain;
+};
+
+export type MessageSignature = {
+    publicKey: string;
+    signature: Buffer;
+};
+
+export type WalletAuthorization =
+    | { method: "pin"; keys: DerivedKeys }
+    // The caller verified a passkey assertion, only custodial providers can sign without the PIN
+    | { method: "passkey" };
+
+export type WalletRef = {
+    refId: string;
+    appId?: string | null;
+};
+
+/**
+ * Everything the engine needs from a wallet backend. Implementations keep one
+ * wallet per chain for each account and app, `appId` is `null` for the default
+ * Simpl3 wallet. Signing always goes through the account's Solana wallet.
+ */
+export interface WalletProvider {
+    readonly name: WalletProviderName;
+
+    create(input: WalletRef & { keys: DerivedKeys; chains: WalletChain[] }): Promise<WalletAccount[]>;
+
+    /** Resolves the primary wallet, the Solana one when there is one. */
+    lookup(input: WalletRef): Promise<WalletAccount | null>;
+
+    list(input: WalletRef): Promise<WalletAccount[]>;
+
+    /** Resolves the wallet if the derived keys unlock it, `null` otherwise. */
+    verifySecurity(input: WalletRef & { keys: DerivedKeys }): Promise<WalletAccount | null>;
+
+    /** Partially signs a base64 transaction and returns it in the same format. */
+    sign(input: WalletRef & { authorization: WalletAuthorization; tx: string }): Promise<string>;
+
+    /**
+     * Signs several transactions with a single unlock of the wallet, settling
+     * each one on its own. Rejects as a whole only when the wallet can't be used.
+     */
+    signAll(input: WalletRef & { authorization: WalletAuthorization; txs: string[] }): Promise<PromiseSettledResult<string>[]>;
+
+    signMessage(input: WalletRef & { keys: DerivedKeys; message: Uint8Array }): Promise<MessageSignature>;
+
+    /**
+     * Moves the wallet from one of the `current` keys to `next`, resolving to a
+     * function that undoes the change. Without `current` the caller is expected
+     * to have re-authenticated the user some other way.
+     */
+    rekey(input: WalletRef & { current?: DerivedKeys[]; next: DerivedKeys }): Promise<() => Promise<void>>;
+}
@@ -0,0 +1,38 @@
+import type { WalletAccount } from "@/providers/wallet.provider";
+
+export type AppMembershipModel = {
+    appId: string;
+    // The account's wallets in the app's wallet set
+    wallets: WalletAccount[];
+    joinedAt: Date;
+};
+
+export type AccountModel = {
+    // Hashed identifier, the `refId` of all the account's wallets
+    id: string;
+    // Wallets in the default Simpl3 wallet set, empty for passkey-only accounts
+    wallets: WalletAccount[];
+    apps: AppMembershipModel[];
+    // Credential IDs of the account's passkeys
+    passkeys: string[];
+    createdAt: Date;
+    updatedAt: Date;
+};
+
+/**
+ * Accounts with the apps they joined, keyed by the hashed identifier.
+ */
+export interface AccountRepository {
+    findById(id: string): Promise<AccountModel | null>;
+
+    /** Sets the default wallets, creating the account when it is new. */
+    saveWallets(id: string, wallets: WalletAccount[]): Promise<void>;
+
+    /** Adds the membership, replacing an earlier one for the same app. */
+    saveMembership(id: string, membership: AppMembershipModel): Promise<void>;
+
+    /** Links a passkey, creating the account when it is new. */
+    linkPasskey(id: string, credentialID: string): Promise<void>;
+
+    unlinkPasskey(id: string, credentialID: string): Promise<void>;
+}
@@ -0,0 +1,39 @@
+import type { WalletChain } from "@/providers/wallet.provider";
+
+export type ApiKeyModel = {
+    // Public part of the key, used to find the app without scanning every hash
+    id: string;
+    hash: string;
+    createdAt: Date;
+    // Set on rotation, the old key keeps working until then
+    expiresAt?: Date;
+};
+
+export type AppModel = {
+    id: string;
+    name: string;
+    // WebAuthn relying party IDs, the registrable domains passkeys are scoped to
+    rpIDs: string[];
+    // Exact origins (scheme, host and port) allowed to run ceremonies for the app
+    origins: string[];
+    // Circle wallet set of the app, apps registered before the registry used their id
+    walletSetId?: string;
+    // Chains new accounts get when registration does not pick any
+    chains?: WalletChain[];
+    apiKeys?: ApiKeyModel[];
+    createdAt?: Date;
+    updatedAt?: Date;
+};
+
+/**
+ * Registry of the apps integrating Simpl3, keyed by `appId`.
+ */
+export interface AppRepository {
+    findById(id: string): Promise<AppModel | null>;
+
+    findByApiKeyId(keyId: string): Promise<AppModel | null>;
+
+    list(): Promise<AppModel[]>;
+
+    save(app: AppModel): Promise<void>;
+}
@@ -0,0 +1,45 @@
+export type AttemptKey = {
+    scope: "account" | "client";
+    key: string;
+};
+
+export type AttemptModel = AttemptKey & {
+    failures: number;
+    // Attempts that have been reserved and not settled yet
+    pending: number;
+    // First failure since the counter was last cleared
+    failingSince?: Date;
+    lockedUntil?: Date;
+    updatedAt: Date;
+    expiresAt: Date;
+};
+
+/**
+ * Failed PIN attempts per account and per client.
+ */
+export interface AttemptRepository {
+    /** The lock among the keys that lasts longest, `null` when none is running. */
+    findLockedUntil(keys: AttemptKey[]): Promise<Date | null>;
+
+    /**
+     * Takes a slot for an attempt in one atomic step. It is refused while the
+     * key is locked, or when the failures and the attempts still running
+     * reach `maxAttempts`. Past that, attempts are let through one at a time.
+     */
+    reserve(key: AttemptKey, maxAttempts: number, expiresAt: Date): Promise<boolean>;
+
+    /** Settles a reserved attempt as failed, resolving to the number of failures so far. */
+    fail(key: AttemptKey): Promise<number>;
+
+    /** Settles a reserved attempt without counting it. */
+    release(key: AttemptKey): Promise<void>;
+
+    /** Extends the lock, a shorter one than already set is ignored. */
+    lock(key: AttemptKey, lockedUntil: Date, expiresAt: Date): Promise<void>;
+
+    /**
+     * Forgets the failures and lifts the lock, attempts still running keep
+     * their slots. With `after`, only failures that all came later are cleared.
+     */
+    clear(keys: AttemptKey[], after?: Date): Promise<void>;
+}
@@ -0,0 +1,34 @@
+import type { AuthMethod } from "@/utils/session";
+
+export type SigningRecord = {
+    id: string;
+    accountId: string;
+    appId: string | null;
+    method: AuthMethod;
+    kind: "transaction" | "message";
+    status: "success" | "failure";
+    error?: string;
+    // sha256 of the transaction message or of the raw message bytes, hex
+    hash: string | null;
+    programIds: string[];
+    ua: string | null;
+    ip: string | null;
+    createdAt: Date;
+};
+
+export type SigningRecordQuery = {
+    accountId?: string;
+    appId?: string;
+    // Position of the last record of the previous page
+    after?: { createdAt: Date; id: string };
+    limit: number;
+};
+
+/**
+ * Append-only log of signing attempts, newest first when listed.
+ */
+export interface SigningAuditRepository {
+    append(record: SigningRecord): Promise<void>;
+
+    list(query: SigningRecordQuery): Promise<SigningRecord[]>;
+}
@@ -0,0 +1,33 @@
+// Reset ceremonies are kept apart so that a login assertion can't reset the PIN
+export type CeremonyType = "registration" | "authentication" | "signing" | "reset";
+
+export type ChallengeModel = {
+    // Ceremony ID handed to the client along with the options
+    id: string;
+    type: CeremonyType;
+    // Unknown until the authenticator answers in usernameless logins
+    userId: string | null;
+    challenge: string;
+    // Hash of the transaction a signing ceremony is bound to
+    signingTransaction?: string;
+    createdAt: Date;
+    expiresAt: Date;
+};
+
+export type ChallengeFilter = {
+    type: CeremonyType;
+    userId: string | null;
+    // Either one identifies the ceremony, the challenge is what the authenticator signed
+    id?: string;
+    challenge?: string;
+};
+
+/**
+ * Pending WebAuthn challenges, one record per ceremony.
+ */
+export interface ChallengeRepository {
+    create(challenge: ChallengeModel): Promise<void>;
+
+    /** Removes and returns the matching unexpired challenge, so it can only be used once. */
+    consume(filter: ChallengeFilter): Promise<ChallengeModel | null>;
+}
@@ -0,0 +1,30 @@
+import type { WalletChain } from "@/providers/wallet.provider";
+
+export type CredentialModel = {
+    id: string;
+    appId?: string | null;
+    address?: string;
+    // Solana chains the keypair is used on, records without it are devnet wallets
+    chains?: WalletChain[];
+    credentials: string;
+};
+
+export type CredentialKey = {
+    id: string;
+    appId?: string | null;
+};
+
+/**
+ * Encrypted keypairs of the local wallet provider, one per account and app.
+ */
+export interface CredentialRepository {
+    find(key: CredentialKey): Promise<CredentialModel | null>;
+
+    insert(record: CredentialModel): Promise<void>;
+
+    /**
+     * Replaces the encrypted blob only if it still equals `previous`, resolving
+     * to `false` when a concurrent write got there first.
+     */
+    replace(key: CredentialKey, previous: string, update: { credentials: string; address?: string }): Promise<boolean>;
+}
@@ -0,0 +1,111 @@
+import "dotenv/config";
+
+import { memoryAccountRepository, memoryAppRepository, memoryAttemptRepository, memoryChallengeRepository, memoryCredentialRepository, memoryKdfRepository, memoryPasskeyRepository, memoryPolicyRepository, memoryRegistrationRepository, memorySessionRepository, memorySigningAuditRepository, memoryWebhookRepository } from "@/repositories/memory.repository";
+import { mongoAccountRepository, mongoAppRepository, mongoAttemptRepository, mongoChallengeRepository, mongoCredentialRepository, mongoKdfRepository, mongoPasskeyRepository, mongoPolicyRepository, mongoRegistrationRepository, mongoSessionRepository, mongoSigningAuditRepository, mongoWebhookRepository } from "@/repositories/mongo.repository";
+import type { AccountRepository } from "@/repositories/account.repository";
+import type { AppRepository } from "@/repositories/app.repository";
+import type { AttemptRepository } from "@/repositories/attempt.repository";
+import type { SigningAuditRepository } from "@/repositories/audit.repository";
+import type { ChallengeRepository } from "@/repositories/challenge.repository";
+import type { CredentialRepository } from "@/repositories/credential.repository";
+import type { KdfRepository } from "@/repositories/kdf.repository";
+import type { PasskeyRepository } from "@/repositories/passkey.repository";
+import type { PolicyRepository } from "@/repositories/policy.repository";
+import type { RegistrationRepository } from "@/repositories/registration.repository";
+import type { SessionRepository } from "@/repositories/session.repository";
+import type { WebhookRepository } from "@/repositories/webhook.repository";
+
+export type { AccountModel, AccountRepository, AppMembershipModel } from "@/repositories/account.repository";
+export type { ApiKeyModel, AppModel, AppRepository } from "@/repositories/app.repository";
+export type { AttemptKey, AttemptModel, AttemptRepository } from "@/repositories/attempt.repository";
+export type { SigningAuditRepository, SigningRecord, SigningRecordQuery } from "@/repositories/audit.repository";
+export type { CeremonyType, ChallengeModel, ChallengeRepository } from "@/repositories/challenge.repository";
+export type { Authenticator, PasskeyRepository, UserModel } from "@/repositories/passkey.repository";
+export type { PolicyModel, PolicyRepository, PolicyScope } from "@/repositories/policy.repository";
+export type { RegistrationModel, RegistrationRepository } from "@/repositories/registration.repository";
+export type { CredentialKey, CredentialModel, CredentialRepository } from "@/repositories/credential.repository";
+export type { KdfModel, KdfRepository } from "@/repositories/kdf.repository";
+export type { SessionModel, SessionRepository } from "@/repositories/session.repository";
+export type { WebhookDeliveryModel, WebhookDeliveryQuery, WebhookDeliveryStatus, WebhookEndpointModel, WebhookEvent, WebhookRepository } from "@/repositories/webhook.repository";
+export { webhookEvents } from "@/repositories/webhook.repository";
+
+// STORAGE=memory runs the repositories without Mongo
+const storage = process.env.STORAGE || "mongo";
+
+function assertStorage() {
+    if (storage !== "mongo" && storage !== "memory") {
+        throw new Error(`Unknown storage ${storage}`);
+    }
+}
+
+export function getPasskeyRepository(): PasskeyRepository {
+    assertStorage();
+
+    return storage === "memory" ? memoryPasskeyRepository : mongoPasskeyRepository;
+}
+
+export function getCredentialRepository(): CredentialRepository {
+    assertStorage();
+
+    return storage === "memory" ? memoryCredentialRepository : mongoCredentialRepository;
+}
+
+export function getAppRepository(): AppRepository {
+    assertStorage();
+
+    return storage === "memory" ? memoryAppRepository : mongoAppRepository;
+}
+
+export function getChallengeRepository(): ChallengeRepository {
+    assertStorage();
+
+    return storage === "memory" ? memoryChallengeRepository : mongoChallengeRepository;
+}
+
+export function getSigningAuditRepository(): SigningAuditRepository {
+    assertStorage();
+
+    return storage === "memory" ? memorySigningAuditRepository : mongoSigningAuditRepository;
+}
+
+export function getPolicyRepository(): PolicyRepository {
+    assertStorage();
+
+    return storage === "memory" ? memoryPolicyRepository : mongoPolicyRepository;
+}
+
+export function getRegistrationRepository(): RegistrationRepository {
+    assertStorage();
+
+    return storage === "memory" ? memoryRegistrationRepository : mongoRegistrationRepository;
+}
+
+export function getAccountRepository(): AccountRepository {
+    assertStorage();
+
+    return storage === "memory" ? memoryAccountRepository : mongoAccountRepository;
+}
+
+export function getWebhookRepository(): WebhookRepository {
+    assertStorage();
+
+    return storage === "memory" ? memoryWebhookRepository : mongoWebhookRepository;
+}
+
+export function getKdfRepository(): KdfRepository {
+    assertStorage();
+
+    return storage === "memory" ? memoryKdfRepository : mongoKdfRepository;
+}
+
+export function getAttemptRepository(): AttemptRepository {
+    assertStorage();
+
+    return storage === "memory" ? memoryAttemptRepository : mongoAttemptRepository;
+}
+
+export function getSessionRepository(): SessionRepository {
+    assertStorage();
+
+    return storage === "memory" ? memorySessionRepository : mongoSessionRepository;
+}
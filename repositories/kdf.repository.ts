@@ -0,0 +1,23 @@
+import type { KdfParams } from "@/utils/kdf";
+
+export type KdfModel = KdfParams & {
+    // Hashed identifier of the account the PIN keys belong to
+    id: string;
+    updatedAt: Date;
+};
+
+/**
+ * KDF parameters of every account's PIN keys, keyed by the hashed identifier.
+ */
+export interface KdfRepository {
+    find(id: string): Promise<KdfParams | null>;
+
+    /**
+     * Stores the parameters unless the account has some already, resolving
+     * to the ones that are stored either way.
+     */
+    create(id: string, params: KdfParams): Promise<KdfParams>;
+
+    /** Stores the parameters, replacing earlier ones on PIN rotation. */
+    save(id: string, params: KdfParams): Promise<void>;
+}
@@ -0,0 +1,205 @@
+import crypto from "crypto";
+import { describe, expect, it } from "vitest";
+
+import {
+    memoryAttemptRepository,
+    memoryChallengeRepository,
+    memoryKdfRepository,
+    memoryPolicyRepository,
+    memoryRegistrationRepository,
+    memorySessionRepository,
+} from "@/repositories/memory.repository";
+import { createKdfParams } from "@/utils/kdf";
+
+const hour = 60 * 60 * 1000;
+
+function later(ms: number) {
+    return new Date(Date.now() + ms);
+}
+
+describe("memoryKdfRepository", () => {
+    it("keeps the parameters that were stored first", async () => {
+        const id = crypto.randomUUID();
+        const first = createKdfParams();
+
+        expect(await memoryKdfRepository.create(id, first)).toEqual(first);
+        expect(await memoryKdfRepository.create(id, createKdfParams())).toEqual(first);
+        expect(await memoryKdfRepository.find(id)).toEqual(first);
+    });
+
+    it("replaces the parameters on save", async () => {
+        const id = crypto.randomUUID();
+        const next = createKdfParams();
+
+        await memoryKdfRepository.create(id, createKdfParams());
+        await memoryKdfRepository.save(id, next);
+
+        expect(await memoryKdfRepository.find(id)).toEqual(next);
+    });
+});
+
+describe("memoryAttemptRepository", () => {
+    const newKey = () => ({ scope: "account" as const, key: crypto.randomUUID() });
+
+    it("counts reserved attempts towards the limit", async () => {
+        const key = newKey();
+
+        expect(await memoryAttemptRepository.reserve(key, 2, later(hour))).toBe(true);
+        expect(await memoryAttemptRepository.reserve(key, 2, later(hour))).toBe(true);
+        expect(await memoryAttemptRepository.reserve(key, 2, later(hour))).toBe(false);
+
+        await memoryAttemptRepository.release(key);
+        expect(await memoryAttemptRepository.reserve(key, 2, later(hour))).toBe(true);
+    });
+
+    it("lets one attempt at a time through past the limit", async () => {
+        const key = newKey();
+
+        for (let i = 0; i < 3; i++) {
+            await memoryAttemptRepository.reserve(key, 2, later(hour));
+            await memoryAttemptRepository.fail(key);
+        }
+
+        expect(await memoryAttemptRepository.reserve(key, 2, later(hour))).toBe(true);
+        expect(await memoryAttemptRepository.reserve(key, 2, later(hour))).toBe(false);
+    });
+
+    it("refuses attempts while locked", async () => {
+        const key = newKey();
+        const lockedUntil = later(hour);
+
+        await memoryAttemptRepository.reserve(key, 5, later(hour));
+        expect(await memoryAttemptRepository.fail(key)).toBe(1);
+        await memoryAttemptRepository.lock(key, lockedUntil, later(2 * hour));
+
+        expect(await memoryAttemptRepository.reserve(key, 5, later(hour))).toBe(false);
+        expect(await memoryAttemptRepository.findLockedUntil([newKey(), key])).toEqual(lockedUntil);
+    });
+
+    it("keeps the longer lock", async () => {
+        const key = newKey();
+        const lockedUntil = later(hour);
+
+        await memoryAttemptRepository.reserve(key, 5, later(hour));
+        await memoryAttemptRepository.fail(key);
+        await memoryAttemptRepository.lock(key, lockedUntil, later(2 * hour));
+        await memoryAttemptRepository.lock(key, later(1000), later(2 * hour));
+
+        expect(await memoryAttemptRepository.findLockedUntil([key])).toEqual(lockedUntil);
+    });
+
+    it("only clears failures that came after the given time", async () => {
+        const key = newKey();
+        const before = new Date(Date.now() - 1000);
+
+        await memoryAttemptRepository.reserve(key, 5, later(hour));
+        await memoryAttemptRepository.fail(key);
+        await memoryAttemptRepository.lock(key, later(hour), later(2 * hour));
+
+        await memoryAttemptRepository.clear([key], later(1000));
+        expect(await memoryAttemptRepository.findLockedUntil([key])).not.toBeNull();
+
+        await memoryAttemptRepository.clear([key], before);
+        expect(await memoryAttemptRepository.findLockedUntil([key])).toBeNull();
+    });
+});
+
+describe("memorySessionRepository", () => {
+    const newSession = () => ({
+        id: crypto.randomUUID(),
+        accountId: "account",
+        method: "pin" as const,
+        refreshTokenHash: "first",
+        createdAt: new Date(),
+        expiresAt: later(hour),
+    });
+
+    it("rotates the refresh token only from the current one", async () => {
+        const session = newSession();
+        await memorySessionRepository.create(session);
+
+        expect(await memorySessionRepository.rotateRefreshToken(session.id, "first", "second")).toBe(true);
+        expect(await memorySessionRepository.rotateRefreshToken(session.id, "first", "third")).toBe(false);
+        expect((await memorySessionRepository.findById(session.id))?.refreshTokenHash).toBe("second");
+    });
+
+    it("revokes once, and only with the matching refresh token when given", async () => {
+        const session = newSession();
+        await memorySessionRepository.create(session);
+
+        expect(await memorySessionRepository.revoke(session.id, "other")).toBe(false);
+        expect(await memorySessionRepository.revoke(session.id, "first")).toBe(true);
+        expect(await memorySessionRepository.revoke(session.id)).toBe(false);
+        expect((await memorySessionRepository.findById(session.id))?.revokedAt).toBeInstanceOf(Date);
+    });
+
+    it("hands out copies", async () => {
+        const session = newSession();
+        await memorySessionRepository.create(session);
+
+        const found = await memorySessionRepository.findById(session.id);
+        found!.refreshTokenHash = "changed";
+
+        expect((await memorySessionRepository.findById(session.id))?.refreshTokenHash).toBe("first");
+    });
+});
+
+describe("memoryPolicyRepository", () => {
+    it("reserves spend up to the limit and releases it", async () => {
+        const key = crypto.randomUUID();
+
+        expect(await memoryPolicyRepository.reserveSpend(key, "2024-01-01", 2n ** 60n, 2n ** 60n + 1n)).toBe(true);
+        expect(await memoryPolicyRepository.reserveSpend(key, "2024-01-01", 2n, 2n ** 60n + 1n)).toBe(false);
+        expect(await memoryPolicyRepository.reserveSpend(key, "2024-01-02", 2n, 2n ** 60n + 1n)).toBe(true);
+
+        await memoryPolicyRepository.releaseSpend(key, "2024-01-01", 2n ** 60n);
+        expect(await memoryPolicyRepository.reserveSpend(key, "2024-01-01", 2n, 2n ** 60n + 1n)).toBe(true);
+    });
+});
+
+describe("memoryChallengeRepository", () => {
+    it("hands out a challenge only once", async () => {
+        const challenge = {
+            id: crypto.randomUUID(),
+            type: "authentication" as const,
+            userId: "account",
+            challenge: crypto.randomUUID(),
+            createdAt: new Date(),
+            expiresAt: later(hour),
+        };
+        await memoryChallengeRepository.create(challenge);
+
+        expect(await memoryChallengeRepository.consume({ type: "registration", userId: "account", id: challenge.id })).toBeNull();
+        expect(await memoryChallengeRepository.consume({ type: "authentication", userId: "account", id: challenge.id })).toEqual(challenge);
+        expect(await memoryChallengeRepository.consume({ type: "authentication", userId: "account", id: challenge.id })).toBeNull();
+    });
+
+    it("drops expired challenges", async () => {
+        const challenge = {
+            id: crypto.randomUUID(),
+            type: "authentication" as const,
+            userId: null,
+            challenge: crypto.randomUUID(),
+            createdAt: new Date(),
+            expiresAt: new Date(Date.now() - 1),
+        };
+        await memoryChallengeRepository.create(challenge);
+
+        expect(await memoryChallengeRepository.consume({ type: "authentication", userId: null, challenge: challenge.challenge })).toBeNull();
+    });
+});
+
+describe("memoryRegistrationRepository", () => {
+    it("lets one request run a registration at a time", async () => {
+        const key = crypto.randomUUID();
+        const now = new Date();
+        const initial = { appId: null, fingerprint: "f", state: "idle", createdAt: now, updatedAt: now, expiresAt: later(hour) };
+
+        expect(await memoryRegistrationRepository.acquire(key, later(hour), initial)).toMatchObject({ key, state: "idle" });
+        expect(await memoryRegistrationRepository.acquire(key, later(hour), initial)).toBeNull();
+
+        await memoryRegistrationRepository.release(key, { state: "registered" });
+
+        expect(await memoryRegistrationRepository.acquire(key, later(hour), initial)).toMatchObject({ key, state: "registered" });
+    });
+});
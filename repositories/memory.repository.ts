@@ -0,0 +1,580 @@
+import type { AccountModel, AccountRepository } from "@/repositories/account.repository";
+import type { AppModel, AppRepository } from "@/repositories/app.repository";
+import type { AttemptKey, AttemptModel, AttemptRepository } from "@/repositories/attempt.repository";
+import type { SigningAuditRepository, SigningRecord } from "@/repositories/audit.repository";
+import type { ChallengeModel, ChallengeRepository } from "@/repositories/challenge.repository";
+import type { CredentialKey, CredentialModel, CredentialRepository } from "@/repositories/credential.repository";
+import type { KdfRepository } from "@/repositories/kdf.repository";
+import type { KdfParams } from "@/utils/kdf";
+import type { PasskeyRepository, UserModel } from "@/repositories/passkey.repository";
+import type { PolicyModel, PolicyRepository, PolicyScope } from "@/repositories/policy.repository";
+import type { RegistrationModel, RegistrationRepository } from "@/repositories/registration.repository";
+import type { SessionModel, SessionRepository } from "@/repositories/session.repository";
+import type { WebhookDeliveryModel, WebhookEndpointModel, WebhookRepository } from "@/repositories/webhook.repository";
+
+const accounts = new Map<string, AccountModel>();
+const users = new Map<string, UserModel>();
+const credentials = new Map<string, CredentialModel>();
+const apps = new Map<string, AppModel>();
+const challenges = new Map<string, ChallengeModel>();
+const signingRecords: SigningRecord[] = [];
+const policies = new Map<string, PolicyModel>();
+// Keyed by counter key and day
+const spend = new Map<string, bigint>();
+const registrations = new Map<string, RegistrationModel>();
+const kdfParams = new Map<string, KdfParams>();
+const attempts = new Map<string, AttemptModel>();
+const sessions = new Map<string, SessionModel>();
+const webhookEndpoints = new Map<string, WebhookEndpointModel>();
+const webhookDeliveries = new Map<string, WebhookDeliveryModel>();
+
+function toKey({ id, appId }: CredentialKey) {
+    return [appId || "", id].join(":");
+}
+
+// Hand out copies so callers cannot mutate the stored records by accident
+function clone<T>(value: T): T {
+    return structuredClone(value);
+}
+
+/**
+ * Keeps passkey users in process memory, for local development and tests only.
+ */
+export const memoryPasskeyRepository: PasskeyRepository = {
+    async findById(id) {
+        const user = users.get(id);
+
+        return user ? clone(user) : null;
+    },
+
+    async findByCredentialId(credentialID) {
+        const user = [...users.values()].find(user => user.authenticators.some(authenticator => authenticator.credentialID === credentialID));
+
+        return user ? clone(user) : null;
+    },
+
+    async upsertUser(id, username) {
+        const user = users.get(id);
+
+        if (user) {
+            user.username = username;
+        } else {
+            users.set(id, { id, username, authenticators: [] });
+        }
+    },
+
+    async addAuthenticator(id, authenticator) {
+        users.get(id)?.authenticators.push(clone(authenticator));
+    },
+
+    async updateCounter(id, credentialID, counter) {
+        const user = users.get(id);
+
+        if (!user) {
+            return;
+        }
+
+        for (const authenticator of user.authenticators) {
+            if (authenticator.credentialID === credentialID) {
+                authenticator.counter = counter;
+                authenticator.lastUsedAt = new Date();
+            }
+        }
+    },
+
+    async renameAuthenticator(id, credentialID, nickname) {
+        const authenticator = users.get(id)?.authenticators.find(authenticator => authenticator.credentialID === credentialID);
+
+        if (!authenticator) {
+            return false;
+        }
+
+        authenticator.nickname = nickname;
+
+        return true;
+    },
+
+    async removeAuthenticator(id, credentialID, options) {
+        const user = users.get(id);
+        const index = user ? user.authenticators.findIndex(authenticator => authenticator.credentialID === credentialID) : -1;
+
+        if (!user || index === -1 || (options?.keepLast && user.authenticators.length === 1)) {
+            return false;
+        }
+
+        user.authenticators.splice(index, 1);
+
+        return true;
+    },
+};
+
+/**
+ * Keeps encrypted credentials in process memory, for local development and tests only.
+ */
+export const memoryCredentialRepository: CredentialRepository = {
+    async find(key) {
+        const record = credentials.get(toKey(key));
+
+        return record ? clone(record) : null;
+    },
+
+    async insert(record) {
+        if (credentials.has(toKey(record))) {
+            throw new Error("Credentials already exist");
+        }
+
+        credentials.set(toKey(record), { ...record, appId: record.appId || null });
+    },
+
+    async replace(key, previous, update) {
+        const record = credentials.get(toKey(key));
+
+        if (!record || record.credentials !== previous) {
+            return false;
+        }
+
+        Object.assign(record, update);
+
+        return true;
+    },
+};
+
+/**
+ * Keeps registered apps in process memory, for local development and tests only.
+ */
+export const memoryAppRepository: AppRepository = {
+    async findById(id) {
+        const app = apps.get(id);
+
+        return app ? clone(app) : null;
+    },
+
+    async findByApiKeyId(keyId) {
+        const app = [...apps.values()].find(app => app.apiKeys?.some(key => key.id === keyId));
+
+        return app ? clone(app) : null;
+    },
+
+    async list() {
+        return [...apps.values()].map(clone);
+    },
+
+    async save(app) {
+        apps.set(app.id, clone(app));
+    },
+};
+
+/**
+ * Keeps pending challenges in process memory, for local development and tests only.
+ */
+export const memoryChallengeRepository: ChallengeRepository = {
+    async create(challenge) {
+        challenges.set(challenge.id, clone(challenge));
+    },
+
+    async consume({ type, userId, id, challenge }) {
+        if (!id && !challenge) {
+            return null;
+        }
+
+        const now = new Date();
+
+        for (const record of challenges.values()) {
+            if (record.expiresAt <= now) {
+                challenges.delete(record.id);
+                continue;
+            }
+
+            if (
+                record.type === type &&
+                record.userId === userId &&
+                (!id || record.id === id) &&
+                (!challenge || record.challenge === challenge)
+            ) {
+                challenges.delete(record.id);
+
+                return record;
+            }
+        }
+
+        return null;
+    },
+};
+
+function isBefore(record: { createdAt: Date; id: string }, after: { createdAt: Date; id: string }) {
+    const delta = record.createdAt.getTime() - after.createdAt.getTime();
+
+    return delta < 0 || (delta === 0 && record.id < after.id);
+}
+
+/**
+ * Keeps the signing log in process memory, for local development and tests only.
+ */
+export const memorySigningAuditRepository: SigningAuditRepository = {
+    async append(record) {
+        signingRecords.push(clone(record));
+    },
+
+    async list({ accountId, appId, after, limit }) {
+        return signingRecords
+            .filter(record =>
+                (!accountId || record.accountId === accountId) &&
+                (!appId || record.appId === appId) &&
+                (!after || isBefore(record, after))
+            )
+            .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || (a.id < b.id ? 1 : -1))
+            .slice(0, limit)
+            .map(clone);
+    },
+};
+
+function policyKey(scope: PolicyScope, ownerId: string) {
+    return `${scope}:${ownerId}`;
+}
+
+/**
+ * Keeps policies and spend counters in process memory, for local development and tests only.
+ */
+export const memoryPolicyRepository: PolicyRepository = {
+    async find(scope, ownerId) {
+        const policy = policies.get(policyKey(scope, ownerId));
+
+        return policy ? clone(policy) : null;
+    },
+
+    async save(policy) {
+        policies.set(policyKey(policy.scope, policy.ownerId), clone(policy));
+    },
+
+    async remove(scope, ownerId) {
+        policies.delete(policyKey(scope, ownerId));
+    },
+
+    async reserveSpend(key, day, amount, limit) {
+        const spent = spend.get(`${key}@${day}`) || 0n;
+
+        if (spent + amount > limit) {
+            return false;
+        }
+
+        spend.set(`${key}@${day}`, spent + amount);
+
+        return true;
+    },
+
+    async releaseSpend(key, day, amount) {
+        spend.set(`${key}@${day}`, (spend.get(`${key}@${day}`) || 0n) - amount);
+    },
+};
+
+/**
+ * Keeps registration runs in process memory, for local development and tests only.
+ */
+export const memoryRegistrationRepository: RegistrationRepository = {
+    async find(key) {
+        const run = registrations.get(key);
+
+        return run ? clone(run) : null;
+    },
+
+    async acquire(key, lockedUntil, initial) {
+        const run = registrations.get(key);
+
+        if (run?.lockedUntil && run.lockedUntil > new Date()) {
+            return null;
+        }
+
+        const next = { ...(run || { ...clone(initial), key }), lockedUntil };
+        registrations.set(key, next);
+
+        return clone(next);
+    },
+
+    async release(key, update) {
+        const run = registrations.get(key);
+
+        if (run) {
+            registrations.set(key, { ...run, ...clone(update), lockedUntil: null });
+        }
+    },
+};
+
+function getOrCreateAccount(id: string) {
+    let account = accounts.get(id);
+
+    if (!account) {
+        const now = new Date();
+        account = { id, wallets: [], apps: [], passkeys: [], createdAt: now, updatedAt: now };
+        accounts.set(id, account);
+    }
+
+    return account;
+}
+
+/**
+ * Keeps accounts in process memory, for local development and tests only.
+ */
+export const memoryAccountRepository: AccountRepository = {
+    async findById(id) {
+        const account = accounts.get(id);
+
+        return account ? clone(account) : null;
+    },
+
+    async saveWallets(id, wallets) {
+        const account = getOrCreateAccount(id);
+
+        account.wallets = clone(wallets);
+        account.updatedAt = new Date();
+    },
+
+    async saveMembership(id, membership) {
+        const account = accounts.get(id);
+
+        if (account) {
+            account.apps = [...account.apps.filter(app => app.appId !== membership.appId), clone(membership)];
+            account.updatedAt = new Date();
+        }
+    },
+
+    async linkPasskey(id, credentialID) {
+        const account = getOrCreateAccount(id);
+
+        if (!account.passkeys.includes(credentialID)) {
+            account.passkeys.push(credentialID);
+        }
+
+        account.updatedAt = new Date();
+    },
+
+    async unlinkPasskey(id, credentialID) {
+        const account = accounts.get(id);
+
+        if (account) {
+            account.passkeys = account.passkeys.filter(passkey => passkey !== credentialID);
+            account.updatedAt = new Date();
+        }
+    },
+};
+
+/**
+ * Keeps webhook endpoints and the delivery outbox in process memory, for local development and tests only.
+ */
+export const memoryWebhookRepository: WebhookRepository = {
+    async findEndpoint(appId, id) {
+        const endpoint = webhookEndpoints.get(id);
+
+        return endpoint?.appId === appId ? clone(endpoint) : null;
+    },
+
+    async listEndpoints(appId) {
+        return [...webhookEndpoints.values()]
+            .filter(endpoint => endpoint.appId === appId)
+            .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+            .map(clone);
+    },
+
+    async saveEndpoint(endpoint) {
+        webhookEndpoints.set(endpoint.id, clone(endpoint));
+    },
+
+    async removeEndpoint(appId, id) {
+        if (webhookEndpoints.get(id)?.appId !== appId) {
+            return false;
+        }
+
+        return webhookEndpoints.delete(id);
+    },
+
+    async enqueue(deliveries) {
+        for (const delivery of deliveries) {
+            webhookDeliveries.set(delivery.id, clone(delivery));
+        }
+    },
+
+    async claimDue(leaseUntil, limit) {
+        const now = new Date();
+        const due = [...webhookDeliveries.values()]
+            .filter(delivery => delivery.status === "pending" && delivery.nextAttemptAt <= now)
+            .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime())
+            .slice(0, limit);
+
+        for (const delivery of due) {
+            delivery.nextAttemptAt = leaseUntil;
+        }
+
+        return due.map(clone);
+    },
+
+    async findDelivery(appId, id) {
+        const delivery = webhookDeliveries.get(id);
+
+        return delivery?.appId === appId ? clone(delivery) : null;
+    },
+
+    async updateDelivery(id, update) {
+        const delivery = webhookDeliveries.get(id);
+
+        if (delivery) {
+            webhookDeliveries.set(id, { ...delivery, ...clone(update) });
+        }
+    },
+
+    async listDeliveries({ appId, endpointId, status, after, limit }) {
+        return [...webhookDeliveries.values()]
+            .filter(delivery =>
+                delivery.appId === appId &&
+                (!endpointId || delivery.endpointId === endpointId) &&
+                (!status || delivery.status === status) &&
+                (!after || isBefore(delivery, after))
+            )
+            .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || (a.id < b.id ? 1 : -1))
+            .slice(0, limit)
+            .map(clone);
+    },
+};
+
+/**
+ * Keeps KDF parameters in process memory, for local development and tests only.
+ */
+export const memoryKdfRepository: KdfRepository = {
+    async find(id) {
+        const params = kdfParams.get(id);
+
+        return params ? clone(params) : null;
+    },
+
+    async create(id, params) {
+        if (!kdfParams.has(id)) {
+            kdfParams.set(id, clone(params));
+        }
+
+        return clone(kdfParams.get(id)!);
+    },
+
+    async save(id, params) {
+        kdfParams.set(id, clone(params));
+    },
+};
+
+function attemptKey({ scope, key }: AttemptKey) {
+    return `${scope}:${key}`;
+}
+
+/**
+ * Keeps PIN attempt counters in process memory, for local development and tests only.
+ */
+export const memoryAttemptRepository: AttemptRepository = {
+    async findLockedUntil(keys) {
+        const now = new Date();
+
+        return keys
+            .map(key => attempts.get(attemptKey(key))?.lockedUntil)
+            .filter((lockedUntil): lockedUntil is Date => !!lockedUntil && lockedUntil > now)
+            .sort((a, b) => b.getTime() - a.getTime())[0] || null;
+    },
+
+    async reserve(key, maxAttempts, expiresAt) {
+        const now = new Date();
+        const entry = attempts.get(attemptKey(key)) || { ...key, failures: 0, pending: 0, updatedAt: now, expiresAt };
+
+        if (entry.lockedUntil && entry.lockedUntil > now) {
+            return false;
+        }
+
+        if (entry.pending > 0 && entry.failures + entry.pending >= maxAttempts) {
+            return false;
+        }
+
+        entry.pending += 1;
+        entry.updatedAt = now;
+        entry.expiresAt = expiresAt > entry.expiresAt ? expiresAt : entry.expiresAt;
+        attempts.set(attemptKey(key), entry);
+
+        return true;
+    },
+
+    async fail(key) {
+        const entry = attempts.get(attemptKey(key));
+
+        if (!entry) {
+            return 1;
+        }
+
+        entry.failures += 1;
+        entry.pending -= 1;
+        entry.updatedAt = new Date();
+        entry.failingSince = entry.failingSince || entry.updatedAt;
+
+        return entry.failures;
+    },
+
+    async release(key) {
+        const entry = attempts.get(attemptKey(key));
+
+        if (entry) {
+            entry.pending -= 1;
+        }
+    },
+
+    async lock(key, lockedUntil, expiresAt) {
+        const entry = attempts.get(attemptKey(key));
+
+        if (entry) {
+            entry.lockedUntil = entry.lockedUntil && entry.lockedUntil > lockedUntil ? entry.lockedUntil : lockedUntil;
+            entry.expiresAt = expiresAt > entry.expiresAt ? expiresAt : entry.expiresAt;
+        }
+    },
+
+    async clear(keys, after) {
+        for (const key of keys) {
+            const entry = attempts.get(attemptKey(key));
+
+            if (entry && (!after || (entry.failingSince && entry.failingSince > after))) {
+                entry.failures = 0;
+                entry.lockedUntil = undefined;
+                entry.failingSince = undefined;
+                entry.updatedAt = new Date();
+            }
+        }
+    },
+};
+
+/**
+ * Keeps login sessions in process memory, for local development and tests only.
+ */
+export const memorySessionRepository: SessionRepository = {
+    async create(session) {
+        sessions.set(session.id, clone(session));
+    },
+
+    async findById(id) {
+        const session = sessions.get(id);
+
+        return session ? clone(session) : null;
+    },
+
+    async rotateRefreshToken(id, currentHash, nextHash) {
+        const session = sessions.get(id);
+
+        if (!session || session.refreshTokenHash !== currentHash) {
+            return false;
+        }
+
+        session.refreshTokenHash = nextHash;
+
+        return true;
+    },
+
+    async revoke(id, refreshTokenHash) {
+        const session = sessions.get(id);
+
+        if (!session || session.revokedAt || (refreshTokenHash && session.refreshTokenHash !== refreshTokenHash)) {
+            return false;
+        }
+
+        session.revokedAt = new Date();
+
+        return true;
+    },
+};
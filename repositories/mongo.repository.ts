@@ -0,0 +1,787 @@
+import { Decimal128 } from "mongodb";
+import { getDB } from "@/utils/db";
+import type { AccountModel, AccountRepository } from "@/repositories/account.repository";
+import type { AppModel, AppRepository } from "@/repositories/app.repository";
+import type { AttemptModel, AttemptRepository } from "@/repositories/attempt.repository";
+import type { SigningAuditRepository, SigningRecord } from "@/repositories/audit.repository";
+import type { ChallengeModel, ChallengeRepository } from "@/repositories/challenge.repository";
+import type { CredentialKey, CredentialModel, CredentialRepository } from "@/repositories/credential.repository";
+import type { KdfModel, KdfRepository } from "@/repositories/kdf.repository";
+import type { PasskeyRepository, UserModel } from "@/repositories/passkey.repository";
+import type { PolicyModel, PolicyRepository } from "@/repositories/policy.repository";
+import type { RegistrationModel, RegistrationRepository } from "@/repositories/registration.repository";
+import type { SessionModel, SessionRepository } from "@/repositories/session.repository";
+import type { WebhookDeliveryModel, WebhookEndpointModel, WebhookRepository } from "@/repositories/webhook.repository";
+
+let accountIndexesCreated = false;
+
+async function getAccounts() {
+    const { db } = await getDB();
+    const collection = db.collection<AccountModel>("accounts");
+
+    if (!accountIndexesCreated) {
+        await collection.createIndex({ id: 1 }, { unique: true });
+        await collection.createIndex({ "apps.appId": 1 });
+        accountIndexesCreated = true;
+    }
+
+    return collection;
+}
+
+let passkeyIndexesCreated = false;
+
+async function getPasskeys() {
+    const { db } = await getDB();
+    const collection = db.collection<UserModel>("passkeys");
+
+    if (!passkeyIndexesCreated) {
+        await collection.createIndex({ "authenticators.credentialID": 1 });
+        passkeyIndexesCreated = true;
+    }
+
+    return collection;
+}
+
+let appIndexesCreated = false;
+
+async function getApps() {
+    const { db } = await getDB();
+    const collection = db.collection<AppModel>("apps");
+
+    if (!appIndexesCreated) {
+        await collection.createIndex({ id: 1 }, { unique: true });
+        await collection.createIndex({ "apiKeys.id": 1 }, { unique: true, sparse: true });
+        appIndexesCreated = true;
+    }
+
+    return collection;
+}
+
+let challengeIndexesCreated = false;
+
+async function getChallenges() {
+    const { db } = await getDB();
+    const collection = db.collection<ChallengeModel>("challenges");
+
+    if (!challengeIndexesCreated) {
+        await collection.createIndex({ id: 1 }, { unique: true });
+        await collection.createIndex({ userId: 1, type: 1, challenge: 1 });
+        await collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+        challengeIndexesCreated = true;
+    }
+
+    return collection;
+}
+
+let auditIndexesCreated = false;
+
+async function getSigningAudit() {
+    const { db } = await getDB();
+    const collection = db.collection<SigningRecord>("signing_audit");
+
+    if (!auditIndexesCreated) {
+        await collection.createIndex({ accountId: 1, createdAt: -1, id: -1 });
+        await collection.createIndex({ appId: 1, createdAt: -1, id: -1 });
+        auditIndexesCreated = true;
+    }
+
+    return collection;
+}
+
+let policyIndexesCreated = false;
+
+async function getPolicies() {
+    const { db } = await getDB();
+    const collection = db.collection<PolicyModel>("policies");
+
+    if (!policyIndexesCreated) {
+        await collection.createIndex({ scope: 1, ownerId: 1 }, { unique: true });
+        policyIndexesCreated = true;
+    }
+
+    return collection;
+}
+
+type SpendModel = {
+    key: string;
+    // UTC date, YYYY-MM-DD
+    day: string;
+    // Decimal128 so that u64 sums stay exact
+    spent: Decimal128;
+    expiresAt: Date;
+};
+
+let spendIndexesCreated = false;
+
+async function getSpend() {
+    const { db } = await getDB();
+    const collection = db.collection<SpendModel>("spend");
+
+    if (!spendIndexesCreated) {
+        await collection.createIndex({ key: 1, day: 1 }, { unique: true });
+        await collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+        spendIndexesCreated = true;
+    }
+
+    return collection;
+}
+
+let registrationIndexesCreated = false;
+
+async function getRegistrations() {
+    const { db } = await getDB();
+    const collection = db.collection<RegistrationModel>("registrations");
+
+    if (!registrationIndexesCreated) {
+        await collection.createIndex({ key: 1 }, { unique: true });
+        await collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+        registrationIndexesCreated = true;
+    }
+
+    return collection;
+}
+
+let kdfIndexesCreated = false;
+
+async function getKdf() {
+    const { db } = await getDB();
+    const collection = db.collection<KdfModel>("kdf");
+
+    if (!kdfIndexesCreated) {
+        await collection.createIndex({ id: 1 }, { unique: true });
+        kdfIndexesCreated = true;
+    }
+
+    return collection;
+}
+
+let attemptIndexesCreated = false;
+
+async function getAttempts() {
+    const { db } = await getDB();
+    const collection = db.collection<AttemptModel>("attempts");
+
+    if (!attemptIndexesCreated) {
+        await collection.createIndex({ scope: 1, key: 1 }, { unique: true });
+        await collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+        attemptIndexesCreated = true;
+    }
+
+    return collection;
+}
+
+let sessionIndexesCreated = false;
+
+async function getSessions() {
+    const { db } = await getDB();
+    const collection = db.collection<SessionModel>("sessions");
+
+    if (!sessionIndexesCreated) {
+        await collection.createIndex({ id: 1 }, { unique: true });
+        // Sessions can't be refreshed past their expiry, the record is no longer needed then
+        await collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+        sessionIndexesCreated = true;
+    }
+
+    return collection;
+}
+
+let webhookEndpointIndexesCreated = false;
+
+async function getWebhookEndpoints() {
+    const { db } = await getDB();
+    const collection = db.collection<WebhookEndpointModel>("webhook_endpoints");
+
+    if (!webhookEndpointIndexesCreated) {
+        await collection.createIndex({ id: 1 }, { unique: true });
+        await collection.createIndex({ appId: 1, createdAt: 1 });
+        webhookEndpointIndexesCreated = true;
+    }
+
+    return collection;
+}
+
+let webhookDeliveryIndexesCreated = false;
+
+async function getWebhookDeliveries() {
+    const { db } = await getDB();
+    const collection = db.collection<WebhookDeliveryModel>("webhook_deliveries");
+
+    if (!webhookDeliveryIndexesCreated) {
+        await collection.createIndex({ id: 1 }, { unique: true });
+        await collection.createIndex({ status: 1, nextAttemptAt: 1 });
+        await collection.createIndex({ appId: 1, createdAt: -1, id: -1 });
+        await collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+        webhookDeliveryIndexesCreated = true;
+    }
+
+    return collection;
+}
+
+async function getCredentials() {
+    const { db } = await getDB();
+
+    return db.collection<CredentialModel>("auth");
+}
+
+// Records created before wallets were scoped per app have no `appId` field,
+// which Mongo matches with `null` as well.
+function toFilter({ id, appId }: CredentialKey) {
+    return { id, appId: appId || null };
+}
+
+export const mongoPasskeyRepository: PasskeyRepository = {
+    async findById(id) {
+        const collection = await getPasskeys();
+
+        return collection.findOne({ id });
+    },
+
+    async findByCredentialId(credentialID) {
+        const collection = await getPasskeys();
+
+        return collection.findOne({ "authenticators.credentialID": credentialID });
+    },
+
+    async upsertUser(id, username) {
+        const collection = await getPasskeys();
+
+        await collection.updateOne({ id }, {
+            $set: { id, username },
+            $setOnInsert: { authenticators: [] },
+        }, { upsert: true });
+    },
+
+    async addAuthenticator(id, authenticator) {
+        const collection = await getPasskeys();
+
+        await collection.updateOne({ id }, {
+            $push: {
+                authenticators: authenticator
+            }
+        });
+    },
+
+    async updateCounter(id, credentialID, counter) {
+        const collection = await getPasskeys();
+
+        await collection.updateOne({ id }, {
+            $set: {
+                "authenticators.$[elem].counter": counter,
+                "authenticators.$[elem].lastUsedAt": new Date(),
+            },
+        }, { arrayFilters: [{ "elem.credentialID": credentialID }] });
+    },
+
+    async renameAuthenticator(id, credentialID, nickname) {
+        const collection = await getPasskeys();
+
+        const result = await collection.updateOne({ id, "authenticators.credentialID": credentialID }, {
+            $set: {
+                "authenticators.$.nickname": nickname
+            }
+        });
+
+        return result.matchedCount > 0;
+    },
+
+    async removeAuthenticator(id, credentialID, options) {
+        const collection = await getPasskeys();
+
+        // Checked in the same update so two concurrent removals cannot both pass
+        const result = await collection.updateOne({
+            id,
+            "authenticators.credentialID": credentialID,
+            ...(options?.keepLast ? { "authenticators.1": { $exists: true } } : {}),
+        }, {
+            $pull: {
+                authenticators: { credentialID }
+            }
+        });
+
+        return result.modifiedCount > 0;
+    },
+};
+
+export const mongoCredentialRepository: CredentialRepository = {
+    async find(key) {
+        const collection = await getCredentials();
+
+        return collection.findOne(toFilter(key));
+    },
+
+    async insert(record) {
+        const collection = await getCredentials();
+
+        await collection.insertOne({ ...record, appId: record.appId || null });
+    },
+
+    async replace(key, previous, update) {
+        const collection = await getCredentials();
+
+        const result = await collection.updateOne(
+            { ...toFilter(key), credentials: previous },
+            { $set: update }
+        );
+
+        return result.modifiedCount > 0;
+    },
+};
+
+export const mongoAppRepository: AppRepository = {
+    async findById(id) {
+        const collection = await getApps();
+
+        return collection.findOne({ id });
+    },
+
+    async findByApiKeyId(keyId) {
+        const collection = await getApps();
+
+        return collection.findOne({ "apiKeys.id": keyId });
+    },
+
+    async list() {
+        const collection = await getApps();
+
+        return collection.find().sort({ createdAt: 1 }).toArray();
+    },
+
+    async save(app) {
+        const collection = await getApps();
+
+        await collection.updateOne({ id: app.id }, { $set: app }, { upsert: true });
+    },
+};
+
+export const mongoChallengeRepository: ChallengeRepository = {
+    async create(challenge) {
+        const collection = await getChallenges();
+
+        await collection.insertOne({ ...challenge });
+    },
+
+    async consume({ type, userId, id, challenge }) {
+        if (!id && !challenge) {
+            return null;
+        }
+
+        const collection = await getChallenges();
+
+        // The TTL monitor only runs once a minute, expired records may still be around
+        return collection.findOneAndDelete({
+            type,
+            userId,
+            ...(id ? { id } : {}),
+            ...(challenge ? { challenge } : {}),
+            expiresAt: { $gt: new Date() },
+        });
+    },
+};
+
+export const mongoSigningAuditRepository: SigningAuditRepository = {
+    async append(record) {
+        const collection = await getSigningAudit();
+
+        await collection.insertOne({ ...record });
+    },
+
+    async list({ accountId, appId, after, limit }) {
+        const collection = await getSigningAudit();
+
+        return collection.find({
+            ...(accountId ? { accountId } : {}),
+            ...(appId ? { appId } : {}),
+            ...(after ? {
+                $or: [
+                    { createdAt: { $lt: after.createdAt } },
+                    { createdAt: after.createdAt, id: { $lt: after.id } },
+                ],
+            } : {}),
+        }, { projection: { _id: 0 } })
+            .sort({ createdAt: -1, id: -1 })
+            .limit(limit)
+            .toArray();
+    },
+};
+
+export const mongoPolicyRepository: PolicyRepository = {
+    async find(scope, ownerId) {
+        const collection = await getPolicies();
+
+        return collection.findOne({ scope, ownerId }, { projection: { _id: 0 } });
+    },
+
+    async save(policy) {
+        const collection = await getPolicies();
+
+        await collection.replaceOne({ scope: policy.scope, ownerId: policy.ownerId }, policy, { upsert: true });
+    },
+
+    async remove(scope, ownerId) {
+        const collection = await getPolicies();
+
+        await collection.deleteOne({ scope, ownerId });
+    },
+
+    async reserveSpend(key, day, amount, limit) {
+        if (amount > limit) {
+            return false;
+        }
+
+        const collection = await getSpend();
+
+        try {
+            // A counter that is already too high doesn't match, and the upsert
+            // then collides with it on the unique index
+            await collection.updateOne({ key, day, spent: { $lte: Decimal128.fromString((limit - amount).toString()) } }, {
+                $inc: { spent: Decimal128.fromString(amount.toString()) },
+                $setOnInsert: { expiresAt: new Date(Date.parse(day) + 2 * 24 * 60 * 60 * 1000) },
+            }, { upsert: true });
+
+            return true;
+        } catch (e) {
+            if ((e as { code?: number }).code === 11000) {
+                return false;
+            }
+
+            throw e;
+        }
+    },
+
+    async releaseSpend(key, day, amount) {
+        const collection = await getSpend();
+
+        await collection.updateOne({ key, day }, { $inc: { spent: Decimal128.fromString((-amount).toString()) } });
+    },
+};
+
+export const mongoRegistrationRepository: RegistrationRepository = {
+    async find(key) {
+        const collection = await getRegistrations();
+
+        return collection.findOne({ key }, { projection: { _id: 0 } });
+    },
+
+    async acquire(key, lockedUntil, initial) {
+        const collection = await getRegistrations();
+
+        try {
+            // A locked run doesn't match, and the upsert then collides with it on the unique index
+            return await collection.findOneAndUpdate({
+                key,
+                $or: [{ lockedUntil: null }, { lockedUntil: { $lte: new Date() } }],
+            }, {
+                $set: { lockedUntil },
+                $setOnInsert: initial,
+            }, { upsert: true, returnDocument: "after", projection: { _id: 0 } });
+        } catch (e) {
+            if ((e as { code?: number }).code === 11000) {
+                return null;
+            }
+
+            throw e;
+        }
+    },
+
+    async release(key, update) {
+        const collection = await getRegistrations();
+
+        await collection.updateOne({ key }, { $set: { ...update, lockedUntil: null } });
+    },
+};
+
+export const mongoAccountRepository: AccountRepository = {
+    async findById(id) {
+        const collection = await getAccounts();
+
+        return collection.findOne({ id }, { projection: { _id: 0 } });
+    },
+
+    async saveWallets(id, wallets) {
+        const collection = await getAccounts();
+        const now = new Date();
+
+        await collection.updateOne({ id }, {
+            $set: { wallets, updatedAt: now },
+            $setOnInsert: { id, apps: [], passkeys: [], createdAt: now },
+        }, { upsert: true });
+    },
+
+    async saveMembership(id, membership) {
+        const collection = await getAccounts();
+
+        // Array elements can't be pulled and pushed in the same update
+        await collection.updateOne({ id }, { $pull: { apps: { appId: membership.appId } } });
+        await collection.updateOne({ id }, {
+            $push: { apps: membership },
+            $set: { updatedAt: new Date() },
+        });
+    },
+
+    async linkPasskey(id, credentialID) {
+        const collection = await getAccounts();
+        const now = new Date();
+
+        await collection.updateOne({ id }, {
+            $addToSet: { passkeys: credentialID },
+            $set: { updatedAt: now },
+            $setOnInsert: { id, wallets: [], apps: [], createdAt: now },
+        }, { upsert: true });
+    },
+
+    async unlinkPasskey(id, credentialID) {
+        const collection = await getAccounts();
+
+        await collection.updateOne({ id }, {
+            $pull: { passkeys: credentialID },
+            $set: { updatedAt: new Date() },
+        });
+    },
+};
+
+export const mongoWebhookRepository: WebhookRepository = {
+    async findEndpoint(appId, id) {
+        const collection = await getWebhookEndpoints();
+
+        return collection.findOne({ appId, id }, { projection: { _id: 0 } });
+    },
+
+    async listEndpoints(appId) {
+        const collection = await getWebhookEndpoints();
+
+        return collection.find({ appId }, { projection: { _id: 0 } }).sort({ createdAt: 1 }).toArray();
+    },
+
+    async saveEndpoint(endpoint) {
+        const collection = await getWebhookEndpoints();
+
+        await collection.replaceOne({ id: endpoint.id }, endpoint, { upsert: true });
+    },
+
+    async removeEndpoint(appId, id) {
+        const collection = await getWebhookEndpoints();
+        const result = await collection.deleteOne({ appId, id });
+
+        return result.deletedCount > 0;
+    },
+
+    async enqueue(deliveries) {
+        if (!deliveries.length) {
+            return;
+        }
+
+        const collection = await getWebhookDeliveries();
+
+        await collection.insertMany(deliveries.map(delivery => ({ ...delivery })));
+    },
+
+    async claimDue(leaseUntil, limit) {
+        const collection = await getWebhookDeliveries();
+        const claimed: WebhookDeliveryModel[] = [];
+
+        // One at a time, each claim is atomic so concurrent workers never take the same delivery
+        while (claimed.length < limit) {
+            const delivery = await collection.findOneAndUpdate(
+                { status: "pending", nextAttemptAt: { $lte: new Date() } },
+                { $set: { nextAttemptAt: leaseUntil } },
+                { sort: { nextAttemptAt: 1 }, returnDocument: "after", projection: { _id: 0 } }
+            );
+
+            if (!delivery) {
+                break;
+            }
+
+            claimed.push(delivery);
+        }
+
+        return claimed;
+    },
+
+    async findDelivery(appId, id) {
+        const collection = await getWebhookDeliveries();
+
+        return collection.findOne({ appId, id }, { projection: { _id: 0 } });
+    },
+
+    async updateDelivery(id, update) {
+        const collection = await getWebhookDeliveries();
+
+        await collection.updateOne({ id }, { $set: update });
+    },
+
+    async listDeliveries({ appId, endpointId, status, after, limit }) {
+        const collection = await getWebhookDeliveries();
+
+        return collection.find({
+            appId,
+            ...(endpointId ? { endpointId } : {}),
+            ...(status ? { status } : {}),
+            ...(after ? {
+                $or: [
+                    { createdAt: { $lt: after.createdAt } },
+                    { createdAt: after.createdAt, id: { $lt: after.id } },
+                ],
+            } : {}),
+        }, { projection: { _id: 0 } })
+            .sort({ createdAt: -1, id: -1 })
+            .limit(limit)
+            .toArray();
+    },
+};
+
+export const mongoKdfRepository: KdfRepository = {
+    async find(id) {
+        const collection = await getKdf();
+        const entry = await collection.findOne({ id });
+
+        if (!entry) {
+            return null;
+        }
+
+        const { algorithm, salt, cost, blockSize, parallelization } = entry;
+
+        return { algorithm, salt, cost, blockSize, parallelization };
+    },
+
+    async create(id, params) {
+        const collection = await getKdf();
+
+        try {
+            await collection.updateOne({ id }, {
+                $setOnInsert: { ...params, id, updatedAt: new Date() },
+            }, { upsert: true });
+        } catch (e) {
+            // Two upserts racing, the other one inserted first
+            if ((e as { code?: number }).code !== 11000) {
+                throw e;
+            }
+        }
+
+        return (await mongoKdfRepository.find(id)) || params;
+    },
+
+    async save(id, params) {
+        const collection = await getKdf();
+
+        await collection.updateOne({ id }, {
+            $set: { ...params, id, updatedAt: new Date() },
+        }, { upsert: true });
+    },
+};
+
+export const mongoAttemptRepository: AttemptRepository = {
+    async findLockedUntil(keys) {
+        const collection = await getAttempts();
+
+        const [locked] = await collection
+            .find({ $or: keys.map(({ scope, key }) => ({ scope, key })), lockedUntil: { $gt: new Date() } })
+            .sort({ lockedUntil: -1 })
+            .limit(1)
+            .toArray();
+
+        return locked?.lockedUntil || null;
+    },
+
+    async reserve({ scope, key }, maxAttempts, expiresAt) {
+        const collection = await getAttempts();
+        const now = new Date();
+
+        try {
+            // A key that is locked or out of attempts doesn't match, and the
+            // upsert then collides with it on the unique index
+            await collection.updateOne({
+                scope,
+                key,
+                $and: [
+                    { $or: [{ lockedUntil: { $exists: false } }, { lockedUntil: { $lte: now } }] },
+                    { $or: [{ pending: { $not: { $gt: 0 } } }, { $expr: { $lt: [{ $add: ["$failures", { $ifNull: ["$pending", 0] }] }, maxAttempts] } }] },
+                ],
+            }, {
+                $inc: { pending: 1 },
+                $set: { updatedAt: now },
+                $max: { expiresAt },
+                $setOnInsert: { failures: 0 },
+            }, { upsert: true });
+
+            return true;
+        } catch (e) {
+            if ((e as { code?: number }).code === 11000) {
+                return false;
+            }
+
+            throw e;
+        }
+    },
+
+    async fail({ scope, key }) {
+        const collection = await getAttempts();
+
+        const entry = await collection.findOneAndUpdate(
+            { scope, key },
+            {
+                $inc: { failures: 1, pending: -1 },
+                $set: { updatedAt: new Date() },
+                $min: { failingSince: new Date() },
+            },
+            { returnDocument: "after" }
+        );
+
+        return entry?.failures || 1;
+    },
+
+    async release({ scope, key }) {
+        const collection = await getAttempts();
+
+        await collection.updateOne({ scope, key }, { $inc: { pending: -1 } });
+    },
+
+    async lock({ scope, key }, lockedUntil, expiresAt) {
+        const collection = await getAttempts();
+
+        await collection.updateOne({ scope, key }, { $max: { lockedUntil, expiresAt } });
+    },
+
+    async clear(keys, after) {
+        const collection = await getAttempts();
+
+        await collection.updateMany(
+            {
+                $or: keys.map(({ scope, key }) => ({ scope, key })),
+                ...(after ? { failingSince: { $gt: after } } : {}),
+            },
+            { $set: { failures: 0, updatedAt: new Date() }, $unset: { lockedUntil: "", failingSince: "" } }
+        );
+    },
+};
+
+export const mongoSessionRepository: SessionRepository = {
+    async create(session) {
+        const collection = await getSessions();
+
+        await collection.insertOne({ ...session });
+    },
+
+    async findById(id) {
+        const collection = await getSessions();
+
+        return collection.findOne({ id }, { projection: { _id: 0 } });
+    },
+
+    async rotateRefreshToken(id, currentHash, nextHash) {
+        const collection = await getSessions();
+        const result = await collection.updateOne({ id, refreshTokenHash: currentHash }, { $set: { refreshTokenHash: nextHash } });
+
+        return result.modifiedCount > 0;
+    },
+
+    async revoke(id, refreshTokenHash) {
+        const collection = await getSessions();
+        const result = await collection.updateOne(
+            { id, ...(refreshTokenHash ? { refreshTokenHash } : {}), revokedAt: { $exists: false } },
+            { $set: { revokedAt: new Date() } }
+        );
+
+        return result.modifiedCount > 0;
+    },
+};
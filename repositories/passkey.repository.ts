@@ -0,0 +1,46 @@
+import type { AuthenticatorTransportFuture, CredentialDeviceType } from "@simplewebauthn/types";
+
+export type Authenticator = {
+    credentialID: string;
+    credentialPublicKey: string;
+    counter: number;
+    credentialDeviceType: CredentialDeviceType;
+    credentialBackedUp: boolean;
+    transports?: AuthenticatorTransportFuture[];
+    nickname?: string;
+    // Missing on authenticators registered before they were tracked
+    createdAt?: Date;
+    lastUsedAt?: Date;
+};
+
+export type UserModel = {
+    id: string;
+    username: string;
+    authenticators: Authenticator[];
+};
+
+/**
+ * Passkey users and their authenticators, keyed by the hashed account id.
+ */
+export interface PasskeyRepository {
+    findById(id: string): Promise<UserModel | null>;
+
+    findByCredentialId(credentialID: string): Promise<UserModel | null>;
+
+    /** Creates the user on first registration, keeping existing authenticators. */
+    upsertUser(id: string, username: string): Promise<void>;
+
+    addAuthenticator(id: string, authenticator: Authenticator): Promise<void>;
+
+    /** Stores the new signature counter and use time. */
+    updateCounter(id: string, credentialID: string, counter: number): Promise<void>;
+
+    /** Resolves to `false` when the user has no such authenticator. */
+    renameAuthenticator(id: string, credentialID: string, nickname: string): Promise<boolean>;
+
+    /**
+     * Removes the authenticator unless it is the user's last one and
+     * `keepLast` is set, resolving to whether anything was removed.
+     */
+    removeAuthenticator(id: string, credentialID: string, options?: { keepLast?: boolean }): Promise<boolean>;
+}
@@ -0,0 +1,39 @@
+export type PolicyScope = "app" | "account";
+
+export type PolicyModel = {
+    scope: PolicyScope;
+    // App ID or hashed account ID, depending on the scope
+    ownerId: string;
+    // Programs a transaction may invoke, any program when unset
+    allowedPrograms?: string[];
+    // Amounts are u64 base units kept as decimal strings
+    maxLamports?: string;
+    maxTokenAmount?: string;
+    // Recipients of SOL and token accounts receiving tokens
+    allowedDestinations?: string[];
+    dailyLamports?: string;
+    updatedAt: Date;
+};
+
+/**
+ * Transaction policies of apps and accounts, with the daily spend counters
+ * their limits are checked against.
+ */
+export interface PolicyRepository {
+    find(scope: PolicyScope, ownerId: string): Promise<PolicyModel | null>;
+
+    /** Replaces the owner's policy as a whole. */
+    save(policy: PolicyModel): Promise<void>;
+
+    remove(scope: PolicyScope, ownerId: string): Promise<void>;
+
+    /**
+     * Adds `amount` to the counter of `key` for the day unless the total would
+     * exceed `limit`, resolving to whether it was added. Amounts are lamports,
+     * kept exact past what a double holds.
+     */
+    reserveSpend(key: string, day: string, amount: bigint, limit: bigint): Promise<boolean>;
+
+    /** Gives back a reservation whose signature was never handed out. */
+    releaseSpend(key: string, day: string, amount: bigint): Promise<void>;
+}
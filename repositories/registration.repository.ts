@@ -0,0 +1,34 @@
+export type RegistrationModel = {
+    // Idempotency key chosen by the client, scoped to the app
+    key: string;
+    appId: string | null;
+    // Hash of the identifier and chains the run was started with
+    fingerprint: string;
+    // State the run stopped in, and its persisted xstate snapshot without the PIN
+    state: string;
+    snapshot?: unknown;
+    error?: string;
+    code?: string;
+    createdAt: Date;
+    updatedAt: Date;
+    expiresAt: Date;
+    // Set while a request is running the registration
+    lockedUntil?: Date | null;
+};
+
+/**
+ * Registration runs keyed by idempotency key, so retries resume them instead
+ * of starting over.
+ */
+export interface RegistrationRepository {
+    find(key: string): Promise<RegistrationModel | null>;
+
+    /**
+     * Locks the run until `lockedUntil`, creating it from `initial` when the
+     * key is new. Resolves to `null` while another request holds the lock.
+     */
+    acquire(key: string, lockedUntil: Date, initial: Omit<RegistrationModel, "key" | "lockedUntil">): Promise<RegistrationModel | null>;
+
+    /** Stores the outcome of a run and releases its lock. */
+    release(key: string, update: Partial<Omit<RegistrationModel, "key">>): Promise<void>;
+}
@@ -0,0 +1,30 @@
+import type { AuthMethod } from "@/utils/session";
+
+export type SessionModel = {
+    id: string;
+    accountId: string;
+    appId?: string | null;
+    method: AuthMethod;
+    refreshTokenHash: string;
+    createdAt: Date;
+    expiresAt: Date;
+    revokedAt?: Date;
+};
+
+/**
+ * Login sessions backing the access and refresh tokens.
+ */
+export interface SessionRepository {
+    create(session: SessionModel): Promise<void>;
+
+    findById(id: string): Promise<SessionModel | null>;
+
+    /** Swaps the refresh token, resolving to `false` when it was rotated meanwhile. */
+    rotateRefreshToken(id: string, currentHash: string, nextHash: string): Promise<boolean>;
+
+    /**
+     * Revokes a session that is still active, only if its refresh token
+     * matches when a hash is given. Resolves to `false` when nothing changed.
+     */
+    revoke(id: string, refreshTokenHash?: string): Promise<boolean>;
+}
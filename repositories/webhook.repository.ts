@@ -0,0 +1,82 @@
+// Events apps can subscribe their endpoints to
+export const webhookEvents = [
+    "ACCOUNT_REGISTERED",
+    "PASSKEY_ADDED",
+    "PASSKEY_REVOKED",
+    "TRANSACTION_SIGNED",
+    "MESSAGE_SIGNED",
+] as const;
+
+export type WebhookEvent = typeof webhookEvents[number];
+
+export type WebhookEndpointModel = {
+    id: string;
+    appId: string;
+    url: string;
+    // Key the payloads are signed with, it has to be kept to sign them
+    secret: string;
+    events: WebhookEvent[];
+    enabled: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+};
+
+export type WebhookDeliveryStatus = "pending" | "delivered" | "failed";
+
+export type WebhookDeliveryModel = {
+    id: string;
+    appId: string;
+    endpointId: string;
+    event: WebhookEvent;
+    // The body as sent, every attempt and replay signs the same bytes
+    payload: string;
+    status: WebhookDeliveryStatus;
+    attempts: number;
+    // Due time of the next attempt, moved ahead while an attempt is running
+    nextAttemptAt: Date;
+    lastAttemptAt?: Date | null;
+    // HTTP status of the last attempt, null when the endpoint could not be reached
+    responseStatus?: number | null;
+    error?: string | null;
+    deliveredAt?: Date | null;
+    createdAt: Date;
+    expiresAt: Date;
+};
+
+export type WebhookDeliveryQuery = {
+    appId: string;
+    endpointId?: string;
+    status?: WebhookDeliveryStatus;
+    // Position of the last delivery of the previous page
+    after?: { createdAt: Date; id: string };
+    limit: number;
+};
+
+/**
+ * Webhook endpoints of the apps, and the outbox of deliveries to them.
+ * Deliveries are listed newest first.
+ */
+export interface WebhookRepository {
+    findEndpoint(appId: string, id: string): Promise<WebhookEndpointModel | null>;
+
+    listEndpoints(appId: string): Promise<WebhookEndpointModel[]>;
+
+    saveEndpoint(endpoint: WebhookEndpointModel): Promise<void>;
+
+    /** Resolves to `false` when the app has no such endpoint. */
+    removeEndpoint(appId: string, id: string): Promise<boolean>;
+
+    enqueue(deliveries: WebhookDeliveryModel[]): Promise<void>;
+
+    /**
+     * Takes up to `limit` pending deliveries that are due, moving them to
+     * `leaseUntil` so other processes leave them alone meanwhile.
+     */
+    claimDue(leaseUntil: Date, limit: number): Promise<WebhookDeliveryModel[]>;
+
+    findDelivery(appId: string, id: string): Promise<WebhookDeliveryModel | null>;
+
+    updateDelivery(id: string, update: Partial<Omit<WebhookDeliveryModel, "id">>): Promise<void>;
+
+    listDeliveries(query: WebhookDeliveryQuery): Promise<WebhookDeliveryModel[]>;
+}
@@ -0,0 +1,147 @@
+import { BadRequestError, ForbiddenError, addMutationFields, addQueryFields, objectType } from "fuse";
+
+import { ApiKeyModel, AppModel, getAppRepository } from "@/repositories";
+import { AppPrincipal, createApp, rotateApiKey, updateApp } from "@/utils/apps";
+import { getWalletChains } from "@/providers";
+import { ChainType } from "@/types/Wallet";
+
+const ApiKeyType = objectType<ApiKeyModel>({
+    name: "ApiKey",
+    fields: (t) => ({
+        id: t.exposeString("id"),
+        createdAt: t.string({
+            resolve: (key) => key.createdAt.toISOString(),
+        }),
+        expiresAt: t.string({
+            resolve: (key) => key.expiresAt?.toISOString(),
+        }),
+    }),
+});
+
+const AppType = objectType<AppModel>({
+    name: "App",
+    fields: (t) => ({
+        id: t.exposeString("id"),
+        name: t.exposeString("name"),
+        rpIDs: t.exposeStringList("rpIDs"),
+        origins: t.exposeStringList("origins"),
+        walletSetId: t.string({
+            resolve: (app) => app.walletSetId || app.id,
+        }),
+        chains: t.field({
+            type: [ChainType],
+            resolve: (app) => app.chains,
+        }),
+        apiKeys: t.field({
+            type: [ApiKeyType],
+            // Hashes never leave the server
+            resolve: (app) => app.apiKeys || [],
+        }),
+    }),
+});
+
+const AppCredentialsType = objectType<{ app: AppModel; apiKey: string }>({
+    name: "AppCredentials",
+    fields: (t) => ({
+        app: t.expose("app", { type: AppType }),
+        // Only shown once, store it right away
+        apiKey: t.exposeString("apiKey"),
+    }),
+});
+
+// Admins manage every app, an app only itself
+export function assertCanManage({ admin, app }: { admin: boolean; app: AppPrincipal | null }, appId?: string) {
+    if (admin) {
+        return;
+    }
+
+    if (!appId || app?.appId !== appId) {
+        throw new ForbiddenError("Not allowed to manage this app");
+    }
+}
+
+addQueryFields((t) => ({
+    app: t.field({
+        type: AppType,
+        args: {
+            id: t.arg.string({ required: true }),
+        },
+        resolve: async (_, args, ctx) => {
+            assertCanManage({ admin: ctx.admin, app: ctx.app }, args.id);
+
+            return await getAppRepository().findById(args.id);
+        },
+    }),
+    apps: t.field({
+        type: [AppType],
+        resolve: async (_, _args, ctx) => {
+            assertCanManage({ admin: ctx.admin, app: ctx.app });
+
+            return await getAppRepository().list();
+        },
+    }),
+}));
+
+// Chains the app's accounts default to, unsupported ones are the caller's mistake
+function getAppChains(chains?: string[] | null) {
+    if (!chains?.length) {
+        return null;
+    }
+
+    try {
+        return getWalletChains(chains);
+    } catch (e) {
+        throw new BadRequestError((e as Error).message);
+    }
+}
+
+addMutationFields((t) => ({
+    createApp: t.field({
+        type: AppCredentialsType,
+        args: {
+            id: t.arg.string({ required: false }),
+            name: t.arg.string({ required: true }),
+            rpIDs: t.arg.stringList({ required: false }),
+            origins: t.arg.stringList({ required: false }),
+            walletSetId: t.arg.string({ required: false }),
+            chains: t.arg({ type: [ChainType], required: false }),
+        },
+        resolve: async (_, args, ctx) => {
+            assertCanManage({ admin: ctx.admin, app: ctx.app });
+
+            return await createApp({ ...args, chains: getAppChains(args.chains) });
+        },
+    }),
+    updateApp: t.field({
+        type: AppType,
+        args: {
+            id: t.arg.string({ required: true }),
+            name: t.arg.string({ required: false }),
+            rpIDs: t.arg.stringList({ required: false }),
+            origins: t.arg.stringList({ required: false }),
+            walletSetId: t.arg.string({ required: false }),
+            chains: t.arg({ type: [ChainType], required: false }),
+        },
+        resolve: async (_, { id, ...args }, ctx) => {
+            assertCanManage({ admin: ctx.admin, app: ctx.app }, id);
+
+            // Moving an app to another wallet set would orphan its wallets
+            if (args.walletSetId && !ctx.admin) {
+                throw new ForbiddenError("Only admins can change the wallet set");
+            }
+
+            return await updateApp(id, { ...args, chains: getAppChains(args.chains) });
+        },
+    }),
+    rotateApiKey: t.field({
+        type: AppCredentialsType,
+        args: {
+            appId: t.arg.string({ required: true }),
+        },
+        resolve: async (_, args, ctx) => {
+            assertCanManage({ admin: ctx.admin, app: ctx.app }, args.appId);
+
+            return await rotateApiKey(args.appId);
+        },
+    }),
+}));
@@ -1,21 +1,81 @@
-import { addMutationFields, addQueryFields } from "fuse";
-import { objectType } from "fuse";
+import { AuthenticationError, BadRequestError, ForbiddenError, FuseError, addMutationFields, addQueryFields } from "fuse";
+import { enumType, objectType } from "fuse";
 
 import "dotenv/config";
 
-import { Keypair, Transaction } from "@solana/web3.js";
+import { PublicKey } from "@solana/web3.js";
 import bs58 from "bs58";
-import { createDBConnection } from "@/utils/db";
-import { createActor, toPromise } from "xstate";
-import { RegisterAccount, registerAccountMachine } from "@/machines/registerAccount.machine";
-import { checkCircleAccount, decryptData, generateKey, getCircleAccount } from "@/utils/crypto";
-import { Wallet } from "@circle-fin/developer-controlled-wallets/dist/types/clients/developer-controlled-wallets";
+import { RegisterAccount } from "@/machines/registerAccount.machine";
+import { generateKey, verifyDetached } from "@/utils/crypto";
+import { Session, assertSessionAccount, assertSessionsEnabled, createSession } from "@/utils/session";
+import { rotatePin } from "@/utils/pin";
+import { requirePin } from "@/utils/authorize";
+import { auditSigning, recordSigning } from "@/utils/audit";
+import { BatchResult, maxBatchSize, signBatch } from "@/utils/batch";
+import { enforcePolicies } from "@/utils/policy";
+import { resolveApp } from "@/utils/apps";
+import { getRegistration, getRegistrationResult, registerAccount } from "@/utils/registration";
+import { getAccount, getAccountStatus, getAccountWallets } from "@/utils/accounts";
+import { PinChangeFailedError, SigningFailedError } from "@/utils/errors";
+import { parseTransaction } from "@/utils/transaction";
+import { MessageSignature, WalletAccount, getWalletChains } from "@/providers";
+import { RegistrationModel } from "@/repositories";
+import { SessionType } from "@/types/Session";
+import { ChainType, WalletType } from "@/types/Wallet";
 
 const RegistrationResponseType = objectType<RegisterAccount>({
     name: "RegistrationResponse",
     fields: (t) => ({
         success: t.exposeBoolean("success"),
         error: t.exposeString("error"),
+        code: t.exposeString("code"),
+    }),
+});
+
+const MessageEncodingType = enumType({
+    name: "MessageEncoding",
+    values: ["UTF8", "BASE64", "BASE58", "HEX"] as const,
+});
+
+type MessageEncoding = "UTF8" | "BASE64" | "BASE58" | "HEX";
+
+function decodeBytes(value: string, encoding?: MessageEncoding | null) {
+    switch (encoding) {
+        case "BASE64":
+            return Buffer.from(value, "base64");
+        case "BASE58":
+            return Buffer.from(bs58.decode(value));
+        case "HEX":
+            return Buffer.from(value, "hex");
+        default:
+            return Buffer.from(value, "utf-8");
+    }
+}
+
+const MessageSignatureType = objectType<MessageSignature>({
+    name: "MessageSignature",
+    fields: (t) => ({
+        publicKey: t.exposeString("publicKey"),
+        signature: t.string({
+            resolve: (parent) => bs58.encode(parent.signature),
+        }),
+        signatureBase64: t.string({
+            resolve: (parent) => parent.signature.toString("base64"),
+        }),
+    }),
+});
+
+const SignAllResultType = objectType<BatchResult>({
+    name: "SignAllResult",
+    fields: (t) => ({
+        // Position of the transaction in `txs`
+        index: t.exposeInt("index"),
+        success: t.boolean({
+            resolve: (result) => result.tx !== null,
+        }),
+        tx: t.exposeString("tx"),
+        error: t.exposeString("error"),
+        code: t.exposeString("code"),
     }),
 });
 
@@ -26,77 +86,195 @@ addMutationFields((t) => ({
             id: t.arg.string({ required: true }),
             pin: t.arg.string({ required: true }),
             appId: t.arg.string({ required: false }),
+            chains: t.arg({ type: [ChainType], required: false }),
+            // Retries with the same key resume the registration instead of starting over
+            idempotencyKey: t.arg.string({ required: false }),
         },
-        resolve: async (_, args) => {
-            const registerAccount = createActor(registerAccountMachine);
+        resolve: async (_, args, ctx) => {
+            // Registering creates wallets in the app's wallet set, so it needs the app's key
+            const app = await resolveApp({ appId: args.appId, caller: ctx.app, requireKey: true });
+
+            // Whoever enrolled the passkeys of an identifier owns it, wallets are only added from their session
+            const account = await getAccount(generateKey(args.id));
 
-            registerAccount.start();
+            if (account?.passkeys.length) {
+                if (!ctx.principal) {
+                    throw new AuthenticationError("Sign in with a passkey of this account to register it");
+                }
+
+                if (ctx.principal.accountId !== account.id) {
+                    throw new ForbiddenError("Session does not belong to this account");
+                }
+            }
+
+            let chains;
+            try {
+                chains = getWalletChains(args.chains?.length ? args.chains : app?.chains);
+            } catch (e) {
+                throw new BadRequestError((e as Error).message);
+            }
 
-            registerAccount.send({
-                type: "register",
+            return await registerAccount({
                 id: args.id,
                 appId: args.appId,
-                pin: args.pin
+                pin: args.pin,
+                chains,
+                idempotencyKey: args.idempotencyKey,
             });
-
-            return await toPromise(registerAccount);
         },
     }),
     sign: t.field({
         type: "String",
         args: {
             id: t.arg.string({ required: true }),
-            pin: t.arg.int({ required: true }),
+            pin: t.arg.string({ required: true }),
             tx: t.arg.string({ required: true }),
+            appId: t.arg.string({ required: false }),
         },
-        resolve: async (_, args) => {
-            const { db } = await createDBConnection({ mongoURI: process.env.DB_URI || "", dbName: process.env.DB_NAME || "" })
+        resolve: async (_, args, ctx) => {
+            await resolveApp({ appId: args.appId, caller: ctx.app });
 
             const storeKey = generateKey(args.id);
-            const entry = await db.collection("auth").findOne({ id: storeKey });
 
-            if (entry && storeKey) {
-                const cipherKey = generateKey([args.id, args.pin].join("$"));
+            assertSessionAccount(ctx.principal, storeKey);
 
-                try {
-                    const data = decryptData(entry.credentials, cipherKey);
+            const attempt = { accountId: storeKey, appId: args.appId, method: "pin" as const, tx: args.tx, ua: ctx.ua, ip: ctx.ip };
 
-                    if (data) {
-                        const signer = Keypair.fromSecretKey(
-                            bs58.decode(data?.privKey)
-                        );
-                        const transaction = Transaction.from(
-                            Buffer.from(args.tx, "base64")
-                        );
+            try {
+                return await auditSigning(attempt, async () => {
+                    // Checked before the PIN, so a malformed transaction doesn't count as a failed attempt
+                    parseTransaction(args.tx);
 
-                        transaction.partialSign(signer);
+                    const { provider, refId, appId, keys, wallet } = await requirePin({ id: args.id, pin: args.pin, appId: args.appId, client: ctx.ip });
+                    const release = await enforcePolicies({ accountId: refId, appId, signer: wallet.address, tx: args.tx });
 
-                        const serializedTransaction = transaction.serialize({
-                            requireAllSignatures: false,
-                            verifySignatures: false,
-                        });
+                    try {
+                        return await provider.sign({ refId, appId, authorization: { method: "pin", keys }, tx: args.tx });
+                    } catch (e) {
+                        await release();
+                        throw e;
+                    }
+                });
+            } catch (e) {
+                // Wrong PINs, lockouts and policy violations are reported as they are
+                if (e instanceof FuseError) {
+                    throw e;
+                }
+
+                console.log(e);
+                throw new SigningFailedError();
+            }
+        },
+    }),
+    signAll: t.field({
+        type: [SignAllResultType],
+        args: {
+            id: t.arg.string({ required: true }),
+            pin: t.arg.string({ required: true }),
+            txs: t.arg.stringList({ required: true }),
+            appId: t.arg.string({ required: false }),
+        },
+        resolve: async (_, args, ctx) => {
+            await resolveApp({ appId: args.appId, caller: ctx.app });
 
+            const storeKey = generateKey(args.id);
 
-                        const transactionBase64 =
-                            serializedTransaction.toString("base64");
+            assertSessionAccount(ctx.principal, storeKey);
 
-                        return transactionBase64;
-                    }
-                } catch (e) {
-                    console.log(e);
-                    return null;
+            if (!args.txs.length || args.txs.length > maxBatchSize) {
+                throw new BadRequestError(`Send between 1 and ${maxBatchSize} transactions`);
+            }
+
+            const refuse = (error: string) => Promise.all(args.txs.map(tx => recordSigning({ accountId: storeKey, appId: args.appId, method: "pin", tx, ua: ctx.ua, ip: ctx.ip }, error)));
+
+            let authorization;
+            try {
+                authorization = await requirePin({ id: args.id, pin: args.pin, appId: args.appId, client: ctx.ip });
+            } catch (e) {
+                await refuse(e instanceof Error ? e.message : String(e));
+                throw e;
+            }
+
+            return await signBatch({ authorization, txs: args.txs, ua: ctx.ua, ip: ctx.ip });
+        },
+    }),
+    changePin: t.field({
+        type: "Boolean",
+        args: {
+            id: t.arg.string({ required: true }),
+            currentPin: t.arg.string({ required: true }),
+            newPin: t.arg.string({ required: true }),
+            appId: t.arg.string({ required: false }),
+        },
+        resolve: async (_, args, ctx) => {
+            await resolveApp({ appId: args.appId, caller: ctx.app });
+
+            assertSessionAccount(ctx.principal, generateKey(args.id));
+
+            await requirePin({ id: args.id, pin: args.currentPin, appId: args.appId, client: ctx.ip });
+
+            try {
+                return await rotatePin({
+                    id: args.id,
+                    appIds: [args.appId],
+                    currentPin: args.currentPin,
+                    nextPin: args.newPin,
+                });
+            } catch (e) {
+                if (e instanceof FuseError) {
+                    throw e;
                 }
+
+                console.log(e);
+                throw new PinChangeFailedError();
             }
+        },
+    }),
+    signMessage: t.field({
+        type: MessageSignatureType,
+        args: {
+            id: t.arg.string({ required: true }),
+            pin: t.arg.string({ required: true }),
+            message: t.arg.string({ required: true }),
+            encoding: t.arg({ type: MessageEncodingType, required: false }),
+            appId: t.arg.string({ required: false }),
+        },
+        resolve: async (_, args, ctx) => {
+            await resolveApp({ appId: args.appId, caller: ctx.app });
+
+            const storeKey = generateKey(args.id);
+
+            assertSessionAccount(ctx.principal, storeKey);
 
-            return null;
+            const message = decodeBytes(args.message, args.encoding);
+            const attempt = { accountId: storeKey, appId: args.appId, method: "pin" as const, message, ua: ctx.ua, ip: ctx.ip };
+
+            try {
+                return await auditSigning(attempt, async () => {
+                    const { provider, refId, appId, keys } = await requirePin({ id: args.id, pin: args.pin, appId: args.appId, client: ctx.ip });
+
+                    return await provider.signMessage({ refId, appId, keys, message });
+                });
+            } catch (e) {
+                if (e instanceof FuseError) {
+                    throw e;
+                }
+
+                console.log(e);
+                throw new SigningFailedError();
+            }
         },
     }),
 }));
 
-const LoginType = objectType<Wallet>({
+const LoginType = objectType<WalletAccount & { wallets: WalletAccount[]; session: Session }>({
     name: "Login",
     fields: (t) => ({
-        pubKey: t.exposeString("address"),
+        pubKey: t.exposeString("address", {
+            deprecationReason: "Use wallets, which lists the address on every chain",
+        }),
+        wallets: t.expose("wallets", { type: [WalletType] }),
+        session: t.expose("session", { type: SessionType }),
     }),
 });
 
@@ -108,27 +286,90 @@ const CheckAccountType = objectType<{ isRegisteredInApp: boolean; isRegistered:
     }),
 });
 
+const RegistrationStatusType = objectType<RegistrationModel>({
+    name: "RegistrationStatus",
+    fields: (t) => ({
+        // idle, error or registered
+        state: t.exposeString("state"),
+        success: t.boolean({
+            resolve: (registration) => getRegistrationResult(registration)?.success,
+        }),
+        error: t.exposeString("error"),
+        code: t.exposeString("code"),
+        inProgress: t.boolean({
+            resolve: (registration) => !!registration.lockedUntil && registration.lockedUntil > new Date(),
+        }),
+        createdAt: t.string({
+            resolve: (registration) => registration.createdAt.toISOString(),
+        }),
+        updatedAt: t.string({
+            resolve: (registration) => registration.updatedAt.toISOString(),
+        }),
+    }),
+});
+
 addQueryFields((t) => ({
+    registrationStatus: t.field({
+        type: RegistrationStatusType,
+        args: {
+            idempotencyKey: t.arg.string({ required: true }),
+            appId: t.arg.string({ required: false }),
+        },
+        resolve: async (_, args, ctx) => {
+            await resolveApp({ appId: args.appId, caller: ctx.app, requireKey: true });
+
+            return await getRegistration(args.appId, args.idempotencyKey);
+        },
+    }),
+    verifyMessage: t.field({
+        type: "Boolean",
+        args: {
+            publicKey: t.arg.string({ required: true }),
+            message: t.arg.string({ required: true }),
+            signature: t.arg.string({ required: true }),
+            encoding: t.arg({ type: MessageEncodingType, required: false }),
+        },
+        resolve: (_, args) => {
+            let publicKey: PublicKey;
+            try {
+                publicKey = new PublicKey(args.publicKey);
+            } catch (e) {
+                throw new BadRequestError("Invalid public key");
+            }
+
+            // Accept both encodings returned by signMessage
+            let signature: Buffer;
+            try {
+                signature = args.signature.length === 88 && args.signature.endsWith("==")
+                    ? Buffer.from(args.signature, "base64")
+                    : Buffer.from(bs58.decode(args.signature));
+            } catch (e) {
+                return false;
+            }
+
+            if (signature.length !== 64) {
+                return false;
+            }
+
+            return verifyDetached(decodeBytes(args.message, args.encoding), signature, publicKey.toBytes());
+        },
+    }),
     checkAccount: t.field({
         type: CheckAccountType,
         args: {
             id: t.arg.string({ required: true }),
             appId: t.arg.string({ required: false }),
         },
-        resolve: async (_, args) => {
-            // Check if ID is registered in App
-            const refId = generateKey(args.id);
-            const isRegisteredInApp = await checkCircleAccount({ refId, appId: args.appId });
+        resolve: async (_, args, ctx) => {
+            await resolveApp({ appId: args.appId, caller: ctx.app });
 
-            // Check if ID is registered in Simpl3
-            const isRegistered = await checkCircleAccount({ refId });
-
-            return {
-                isRegisteredInApp,
-                isRegistered,
-            }
+            return await getAccountStatus(generateKey(args.id), args.appId);
         },
     }),
+}));
+
+// Logins issue a session and use up PIN attempts, so they are kept out of the query cache
+addMutationFields((t) => ({
     loginAccount: t.field({
         type: LoginType,
         args: {
@@ -136,17 +377,16 @@ addQueryFields((t) => ({
             pin: t.arg.string({ required: true }),
             appId: t.arg.string({ required: false }),
         },
-        resolve: async (_, args) => {
-            const refId = generateKey(args.id);
-            const security = generateKey([args.id, args.pin].join("$"));
+        resolve: async (_, args, ctx) => {
+            assertSessionsEnabled();
+            await resolveApp({ appId: args.appId, caller: ctx.app });
 
-            const wallet = await getCircleAccount({ refId, appId: args.appId, security });
+            const { refId, appId, wallet } = await requirePin({ id: args.id, pin: args.pin, appId: args.appId, client: ctx.ip });
 
-            try {
-                return wallet;
-            } catch (e) {
-                return null;
-            }
+            const wallets = await getAccountWallets(refId, appId);
+            const session = await createSession({ accountId: refId, appId: args.appId, method: "pin" });
+
+            return { ...wallet, wallets, session };
         },
     }),
 }));
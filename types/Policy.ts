@@ -0,0 +1,88 @@
+import { AuthenticationError, addMutationFields, addQueryFields, inputType, objectType } from "fuse";
+
+import { PolicyModel } from "@/repositories";
+import { getPolicy, setPolicy } from "@/utils/policy";
+import { resolveApp } from "@/utils/apps";
+import { assertCanManage } from "@/types/App";
+
+const TransactionPolicyType = objectType<PolicyModel>({
+    name: "TransactionPolicy",
+    fields: (t) => ({
+        // app or account
+        scope: t.exposeString("scope"),
+        allowedPrograms: t.exposeStringList("allowedPrograms"),
+        // Amounts are in lamports or raw token units
+        maxLamports: t.exposeString("maxLamports"),
+        maxTokenAmount: t.exposeString("maxTokenAmount"),
+        allowedDestinations: t.exposeStringList("allowedDestinations"),
+        dailyLamports: t.exposeString("dailyLamports"),
+        updatedAt: t.string({
+            resolve: (policy) => policy.updatedAt.toISOString(),
+        }),
+    }),
+});
+
+const TransactionPolicyInput = inputType({
+    name: "TransactionPolicyInput",
+    fields: (t) => ({
+        allowedPrograms: t.stringList({ required: false }),
+        maxLamports: t.string({ required: false }),
+        maxTokenAmount: t.string({ required: false }),
+        allowedDestinations: t.stringList({ required: false }),
+        dailyLamports: t.string({ required: false }),
+    }),
+});
+
+function requireAccount(principal: { accountId: string } | null) {
+    if (!principal) {
+        throw new AuthenticationError("Sign in to manage the account policy");
+    }
+
+    return principal.accountId;
+}
+
+addQueryFields((t) => ({
+    appPolicy: t.field({
+        type: TransactionPolicyType,
+        args: {
+            appId: t.arg.string({ required: true }),
+        },
+        resolve: async (_, args, ctx) => {
+            assertCanManage({ admin: ctx.admin, app: ctx.app }, args.appId);
+
+            return await getPolicy("app", args.appId);
+        },
+    }),
+    accountPolicy: t.field({
+        type: TransactionPolicyType,
+        resolve: async (_, _args, ctx) => {
+            return await getPolicy("account", requireAccount(ctx.principal));
+        },
+    }),
+}));
+
+// Each call replaces the whole policy, passing no rules removes it
+addMutationFields((t) => ({
+    setAppPolicy: t.field({
+        type: TransactionPolicyType,
+        args: {
+            appId: t.arg.string({ required: true }),
+            policy: t.arg({ type: TransactionPolicyInput, required: true }),
+        },
+        resolve: async (_, args, ctx) => {
+            assertCanManage({ admin: ctx.admin, app: ctx.app }, args.appId);
+            await resolveApp({ appId: args.appId, caller: ctx.app });
+
+            return await setPolicy("app", args.appId, args.policy);
+        },
+    }),
+    setAccountPolicy: t.field({
+        type: TransactionPolicyType,
+        args: {
+            policy: t.arg({ type: TransactionPolicyInput, required: true }),
+        },
+        resolve: async (_, args, ctx) => {
+            return await setPolicy("account", requireAccount(ctx.principal), args.policy);
+        },
+    }),
+}));
@@ -0,0 +1,50 @@
+import { addMutationFields, objectType } from "fuse";
+
+import { Session, refreshSession, revokeRefreshToken, revokeSession } from "@/utils/session";
+import { SessionExpiredError } from "@/utils/errors";
+
+export const SessionType = objectType<Session>({
+    name: "Session",
+    fields: (t) => ({
+        accessToken: t.exposeString("accessToken"),
+        refreshToken: t.exposeString("refreshToken"),
+        expiresAt: t.string({
+            resolve: (session) => session.expiresAt.toISOString(),
+        }),
+    }),
+});
+
+addMutationFields((t) => ({
+    refreshSession: t.field({
+        type: SessionType,
+        args: {
+            refreshToken: t.arg.string({ required: true }),
+        },
+        resolve: async (_, args) => {
+            const session = await refreshSession(args.refreshToken);
+
+            if (!session) {
+                throw new SessionExpiredError();
+            }
+
+            return session;
+        },
+    }),
+    revokeSession: t.field({
+        type: "Boolean",
+        args: {
+            refreshToken: t.arg.string({ required: false }),
+        },
+        resolve: async (_, args, ctx) => {
+            if (args.refreshToken) {
+                return await revokeRefreshToken(args.refreshToken);
+            }
+
+            if (ctx.principal) {
+                return await revokeSession(ctx.principal.sessionId);
+            }
+
+            return false;
+        },
+    }),
+}));
@@ -0,0 +1,70 @@
+import { AuthenticationError, ForbiddenError, addQueryFields, objectType } from "fuse";
+
+import { SigningRecord } from "@/repositories";
+import { generateKey } from "@/utils/crypto";
+import { resolveApp } from "@/utils/apps";
+import { listSigningHistory } from "@/utils/audit";
+
+const SigningRecordType = objectType<SigningRecord>({
+    name: "SigningRecord",
+    fields: (t) => ({
+        id: t.exposeString("id"),
+        accountId: t.exposeString("accountId"),
+        appId: t.exposeString("appId"),
+        // pin or passkey
+        method: t.exposeString("method"),
+        // transaction or message
+        kind: t.exposeString("kind"),
+        // success or failure
+        status: t.exposeString("status"),
+        error: t.exposeString("error"),
+        hash: t.exposeString("hash"),
+        programIds: t.exposeStringList("programIds"),
+        userAgent: t.exposeString("ua"),
+        ip: t.exposeString("ip"),
+        createdAt: t.string({
+            resolve: (record) => record.createdAt.toISOString(),
+        }),
+    }),
+});
+
+const SigningHistoryType = objectType<{ items: SigningRecord[]; nextCursor: string | null }>({
+    name: "SigningHistory",
+    fields: (t) => ({
+        items: t.expose("items", { type: [SigningRecordType] }),
+        nextCursor: t.exposeString("nextCursor"),
+    }),
+});
+
+addQueryFields((t) => ({
+    // Signed-in users read their own account, apps the attempts made through them
+    signingHistory: t.field({
+        type: SigningHistoryType,
+        args: {
+            id: t.arg.string({ required: false }),
+            appId: t.arg.string({ required: false }),
+            first: t.arg.int({ required: false }),
+            after: t.arg.string({ required: false }),
+        },
+        resolve: async (_, args, ctx) => {
+            await resolveApp({ appId: args.appId, caller: ctx.app });
+
+            const accountId = args.id ? generateKey(args.id) : undefined;
+            const appId = ctx.app?.appId || args.appId || undefined;
+
+            if (ctx.principal) {
+                if (accountId && accountId !== ctx.principal.accountId) {
+                    throw new ForbiddenError("Session does not belong to this account");
+                }
+
+                return await listSigningHistory({ accountId: ctx.principal.accountId, appId, first: args.first, after: args.after });
+            }
+
+            if (ctx.app) {
+                return await listSigningHistory({ accountId, appId: ctx.app.appId, first: args.first, after: args.after });
+            }
+
+            throw new AuthenticationError("Sign in or use an app API key to read the signing history");
+        },
+    }),
+}));
@@ -0,0 +1,85 @@
+import { AuthenticationError, addQueryFields, objectType } from "fuse";
+
+import { generateKey } from "@/utils/crypto";
+import { resolveApp } from "@/utils/apps";
+import { assertSessionAccount } from "@/utils/session";
+import { InstructionPreview, TransactionPreview, previewTransaction } from "@/utils/preview";
+import { getWalletProvider } from "@/providers";
+
+const TransactionSignerType = objectType<{ address: string; signed: boolean; isAccount: boolean | null }>({
+    name: "TransactionSigner",
+    fields: (t) => ({
+        address: t.exposeString("address"),
+        signed: t.exposeBoolean("signed"),
+        // Whether this is the wallet of the previewing account
+        isAccount: t.exposeBoolean("isAccount"),
+    }),
+});
+
+const InstructionPreviewType = objectType<InstructionPreview>({
+    name: "InstructionPreview",
+    fields: (t) => ({
+        programId: t.exposeString("programId"),
+        program: t.exposeString("program"),
+        type: t.exposeString("type"),
+        description: t.exposeString("description"),
+        // null for accounts loaded from address lookup tables
+        accounts: t.stringList({
+            nullable: { list: false, items: true },
+            resolve: (instruction) => instruction.accounts,
+        }),
+    }),
+});
+
+type Preview = Omit<TransactionPreview, "signers"> & {
+    signers: { address: string; signed: boolean; isAccount: boolean | null }[];
+    isSigner: boolean | null;
+};
+
+const TransactionPreviewType = objectType<Preview>({
+    name: "TransactionPreview",
+    fields: (t) => ({
+        version: t.exposeString("version"),
+        feePayer: t.exposeString("feePayer"),
+        recentBlockhash: t.exposeString("recentBlockhash"),
+        signers: t.expose("signers", { type: [TransactionSignerType] }),
+        instructions: t.expose("instructions", { type: [InstructionPreviewType] }),
+        // Whether the account has to sign, unknown without an account
+        isSigner: t.exposeBoolean("isSigner"),
+    }),
+});
+
+addQueryFields((t) => ({
+    previewTransaction: t.field({
+        type: TransactionPreviewType,
+        args: {
+            tx: t.arg.string({ required: true }),
+            id: t.arg.string({ required: false }),
+            appId: t.arg.string({ required: false }),
+        },
+        resolve: async (_, args, ctx) => {
+            await resolveApp({ appId: args.appId, caller: ctx.app });
+
+            const preview = previewTransaction(args.tx);
+
+            // The wallet of an identifier is only matched for a session of that account
+            if (args.id) {
+                if (!ctx.principal) {
+                    throw new AuthenticationError("Sign in to preview a transaction for an account");
+                }
+
+                assertSessionAccount(ctx.principal, generateKey(args.id));
+            }
+
+            const refId = ctx.principal?.accountId;
+            const wallet = refId ? await getWalletProvider(args.appId).lookup({ refId, appId: args.appId }) : null;
+            const signers = preview.signers.map(signer => ({ ...signer, isAccount: wallet ? signer.address === wallet.address : null }));
+
+            return {
+                ...preview,
+                signers,
+                isSigner: wallet ? signers.some(signer => signer.isAccount) : null,
+            };
+        },
+    }),
+}));
@@ -0,0 +1,22 @@
+import { enumType, objectType } from "fuse";
+
+import { WalletAccount, WalletChain, walletChains } from "@/providers";
+
+// GraphQL enum names can't contain dashes, so SOL-DEVNET is exposed as SOL_DEVNET
+export const ChainType = enumType({
+    name: "Chain",
+    values: Object.fromEntries(
+        walletChains.map(chain => [chain.replace("-", "_"), { value: chain }])
+    ) as Record<string, { value: WalletChain }>,
+});
+
+export const WalletType = objectType<WalletAccount>({
+    name: "Wallet",
+    fields: (t) => ({
+        chain: t.field({
+            type: ChainType,
+            resolve: (parent) => parent.chain,
+        }),
+        address: t.exposeString("address"),
+    }),
+});
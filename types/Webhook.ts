@@ -0,0 +1,188 @@
+import { addMutationFields, addQueryFields, enumType, objectType } from "fuse";
+
+import { WebhookDeliveryModel, WebhookEndpointModel, WebhookEvent, webhookEvents } from "@/repositories";
+import { resolveApp } from "@/utils/apps";
+import {
+    createEndpoint,
+    listDeliveries,
+    listEndpoints,
+    removeEndpoint,
+    replayDelivery,
+    rotateEndpointSecret,
+    updateEndpoint,
+} from "@/utils/webhooks";
+import { assertCanManage } from "@/types/App";
+
+const WebhookEventType = enumType({
+    name: "WebhookEvent",
+    values: Object.fromEntries(
+        webhookEvents.map(event => [event, { value: event }])
+    ) as Record<WebhookEvent, { value: WebhookEvent }>,
+});
+
+const WebhookEndpointType = objectType<WebhookEndpointModel>({
+    name: "WebhookEndpoint",
+    fields: (t) => ({
+        id: t.exposeString("id"),
+        appId: t.exposeString("appId"),
+        url: t.exposeString("url"),
+        events: t.field({
+            type: [WebhookEventType],
+            resolve: (endpoint) => endpoint.events,
+        }),
+        enabled: t.exposeBoolean("enabled"),
+        createdAt: t.string({
+            resolve: (endpoint) => endpoint.createdAt.toISOString(),
+        }),
+        updatedAt: t.string({
+            resolve: (endpoint) => endpoint.updatedAt.toISOString(),
+        }),
+    }),
+});
+
+const WebhookEndpointCredentialsType = objectType<{ endpoint: WebhookEndpointModel; secret: string }>({
+    name: "WebhookEndpointCredentials",
+    fields: (t) => ({
+        endpoint: t.expose("endpoint", { type: WebhookEndpointType }),
+        // Only shown once, store it right away to verify signatures
+        secret: t.exposeString("secret"),
+    }),
+});
+
+const WebhookDeliveryType = objectType<WebhookDeliveryModel>({
+    name: "WebhookDelivery",
+    fields: (t) => ({
+        id: t.exposeString("id"),
+        endpointId: t.exposeString("endpointId"),
+        event: t.field({
+            type: WebhookEventType,
+            resolve: (delivery) => delivery.event,
+        }),
+        // The JSON body sent to the endpoint
+        payload: t.exposeString("payload"),
+        // pending, delivered or failed
+        status: t.exposeString("status"),
+        attempts: t.exposeInt("attempts"),
+        responseStatus: t.exposeInt("responseStatus"),
+        error: t.exposeString("error"),
+        nextAttemptAt: t.string({
+            resolve: (delivery) => delivery.status === "pending" ? delivery.nextAttemptAt.toISOString() : null,
+        }),
+        lastAttemptAt: t.string({
+            resolve: (delivery) => delivery.lastAttemptAt?.toISOString(),
+        }),
+        deliveredAt: t.string({
+            resolve: (delivery) => delivery.deliveredAt?.toISOString(),
+        }),
+        createdAt: t.string({
+            resolve: (delivery) => delivery.createdAt.toISOString(),
+        }),
+    }),
+});
+
+const WebhookDeliveriesType = objectType<{ items: WebhookDeliveryModel[]; nextCursor: string | null }>({
+    name: "WebhookDeliveries",
+    fields: (t) => ({
+        items: t.expose("items", { type: [WebhookDeliveryType] }),
+        nextCursor: t.exposeString("nextCursor"),
+    }),
+});
+
+addQueryFields((t) => ({
+    webhookEndpoints: t.field({
+        type: [WebhookEndpointType],
+        args: {
+            appId: t.arg.string({ required: true }),
+        },
+        resolve: async (_, args, ctx) => {
+            assertCanManage({ admin: ctx.admin, app: ctx.app }, args.appId);
+
+            return await listEndpoints(args.appId);
+        },
+    }),
+    // Newest first, deliveries are kept for WEBHOOK_RETENTION
+    webhookDeliveries: t.field({
+        type: WebhookDeliveriesType,
+        args: {
+            appId: t.arg.string({ required: true }),
+            endpointId: t.arg.string({ required: false }),
+            status: t.arg.string({ required: false }),
+            first: t.arg.int({ required: false }),
+            after: t.arg.string({ required: false }),
+        },
+        resolve: async (_, args, ctx) => {
+            assertCanManage({ admin: ctx.admin, app: ctx.app }, args.appId);
+
+            return await listDeliveries(args);
+        },
+    }),
+}));
+
+addMutationFields((t) => ({
+    createWebhookEndpoint: t.field({
+        type: WebhookEndpointCredentialsType,
+        args: {
+            appId: t.arg.string({ required: true }),
+            url: t.arg.string({ required: true }),
+            events: t.arg({ type: [WebhookEventType], required: true }),
+        },
+        resolve: async (_, args, ctx) => {
+            assertCanManage({ admin: ctx.admin, app: ctx.app }, args.appId);
+            await resolveApp({ appId: args.appId, caller: ctx.app });
+
+            return await createEndpoint(args.appId, { url: args.url, events: args.events });
+        },
+    }),
+    updateWebhookEndpoint: t.field({
+        type: WebhookEndpointType,
+        args: {
+            appId: t.arg.string({ required: true }),
+            id: t.arg.string({ required: true }),
+            url: t.arg.string({ required: false }),
+            events: t.arg({ type: [WebhookEventType], required: false }),
+            enabled: t.arg.boolean({ required: false }),
+        },
+        resolve: async (_, { appId, id, ...args }, ctx) => {
+            assertCanManage({ admin: ctx.admin, app: ctx.app }, appId);
+
+            return await updateEndpoint(appId, id, args);
+        },
+    }),
+    rotateWebhookSecret: t.field({
+        type: WebhookEndpointCredentialsType,
+        args: {
+            appId: t.arg.string({ required: true }),
+            id: t.arg.string({ required: true }),
+        },
+        resolve: async (_, args, ctx) => {
+            assertCanManage({ admin: ctx.admin, app: ctx.app }, args.appId);
+
+            return await rotateEndpointSecret(args.appId, args.id);
+        },
+    }),
+    deleteWebhookEndpoint: t.field({
+        type: "Boolean",
+        args: {
+            appId: t.arg.string({ required: true }),
+            id: t.arg.string({ required: true }),
+        },
+        resolve: async (_, args, ctx) => {
+            assertCanManage({ admin: ctx.admin, app: ctx.app }, args.appId);
+
+            return await removeEndpoint(args.appId, args.id);
+        },
+    }),
+    // Sends a delivered or failed delivery again, with the same payload and event id
+    replayWebhookDelivery: t.field({
+        type: WebhookDeliveryType,
+        args: {
+            appId: t.arg.string({ required: true }),
+            id: t.arg.string({ required: true }),
+        },
+        resolve: async (_, args, ctx) => {
+            assertCanManage({ admin: ctx.admin, app: ctx.app }, args.appId);
+
+            return await replayDelivery(args.appId, args.id);
+        },
+    }),
+}));
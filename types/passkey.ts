@@ -1,10 +1,33 @@
-import { addMutationFields } from "fuse";
+import { AuthenticationError, BadRequestError, ForbiddenError, FuseError, addMutationFields, addQueryFields, objectType } from "fuse";
 
 import "dotenv/config";
 
-import { createDBConnection } from "@/utils/db";
+import crypto from "crypto";
+
 import { generateKey } from "@/utils/crypto";
-import type { AuthenticationResponseJSON, AuthenticatorTransportFuture, CredentialDeviceType, RegistrationResponseJSON } from '@simplewebauthn/types';
+import { hashTransaction, parseTransaction } from "@/utils/transaction";
+import { rotatePin } from "@/utils/pin";
+import { clearAttempts, getAttemptKeys } from "@/utils/throttle";
+import { getWalletProvider } from "@/providers";
+import { Authenticator, UserModel, getPasskeyRepository } from "@/repositories";
+import { Principal, Session, assertSessionsEnabled, createSession } from "@/utils/session";
+import { consumeChallenge, issueChallenge } from "@/utils/challenges";
+import { auditSigning } from "@/utils/audit";
+import { getAccount, linkPasskey, unlinkPasskey } from "@/utils/accounts";
+import { enforcePolicies } from "@/utils/policy";
+import { emitAccountEvent } from "@/utils/webhooks";
+import {
+    AccountNotFoundError,
+    ChallengeExpiredError,
+    PasskeyNotFoundError,
+    PasskeyVerificationError,
+    PinChangeFailedError,
+    SigningFailedError,
+} from "@/utils/errors";
+import { SessionType } from "@/types/Session";
+import { resolveApp } from "@/utils/apps";
+import { RelyingParty, assertOrigin, getRelyingParty, selectRpID } from "@/utils/relyingParty";
+import type { AuthenticationResponseJSON, RegistrationResponseJSON } from '@simplewebauthn/types';
 import {
     generateAuthenticationOptions,
     generateRegistrationOptions,
@@ -12,25 +35,100 @@ import {
     verifyRegistrationResponse,
 } from '@simplewebauthn/server';
 
-type UserModel = {
-    id: string;
-    username: string;
-    authenticators: Authenticator[];
-    currentChallenge?: string;
-};
-
-type Authenticator = {
-    credentialID: string;
-    credentialPublicKey: string;
-    counter: number;
-    credentialDeviceType: CredentialDeviceType;
-    credentialBackedUp: boolean;
-    transports?: AuthenticatorTransportFuture[];
-};
-
-const rpName = 'Simpl3 Auth';
-const rpID = 'localhost';
-const origin = `https://${rpID}`;
+const PasskeyType = objectType<Authenticator>({
+    name: "Passkey",
+    fields: (t) => ({
+        id: t.exposeString("credentialID"),
+        nickname: t.exposeString("nickname"),
+        deviceType: t.exposeString("credentialDeviceType"),
+        backedUp: t.exposeBoolean("credentialBackedUp"),
+        transports: t.stringList({
+            resolve: (authenticator) => authenticator.transports,
+        }),
+        createdAt: t.string({
+            resolve: (authenticator) => authenticator.createdAt?.toISOString(),
+        }),
+        lastUsedAt: t.string({
+            resolve: (authenticator) => authenticator.lastUsedAt?.toISOString(),
+        }),
+    }),
+});
+
+function requirePrincipal(principal: Principal | null) {
+    if (!principal) {
+        throw new AuthenticationError("Sign in to manage passkeys");
+    }
+
+    return principal;
+}
+
+function parseResponse<T>(response: string) {
+    try {
+        return JSON.parse(response) as T;
+    } catch (e) {
+        throw new BadRequestError("Invalid passkey response");
+    }
+}
+
+/**
+ * Passkeys sign without a PIN, so only brand new identifiers can enroll one
+ * without signing in. Existing accounts need a session of their own.
+ */
+async function assertCanEnroll(userId: string, principal: Principal | null) {
+    const user = await getPasskeyRepository().findById(userId);
+    const account = await getAccount(userId);
+
+    if (!user?.authenticators?.length && !account?.wallets.length && !account?.apps.length) {
+        return;
+    }
+
+    if (!principal) {
+        throw new AuthenticationError("Sign in to add a passkey to this account");
+    }
+
+    if (principal.accountId !== userId) {
+        throw new ForbiddenError("Session does not belong to this account");
+    }
+}
+
+const PasskeyLoginType = objectType<{ id: string; accountId: string; session: Session }>({
+    name: "PasskeyLogin",
+    fields: (t) => ({
+        // The identifier the account was registered with
+        id: t.exposeString("id"),
+        accountId: t.exposeString("accountId"),
+        session: t.expose("session", { type: SessionType }),
+    }),
+});
+
+async function verifyAssertion({ rp, user, response, expectedChallenge, requireUserVerification }: { rp: RelyingParty; user: UserModel; response: AuthenticationResponseJSON; expectedChallenge: string; requireUserVerification?: boolean; }) {
+    const authenticator = user.authenticators.find(authenticator => authenticator.credentialID === response.id)
+
+    if (!authenticator) {
+        throw new PasskeyNotFoundError();
+    }
+
+    let verification;
+    try {
+        verification = await verifyAuthenticationResponse({
+            response,
+            expectedChallenge,
+            expectedOrigin: rp.origins,
+            expectedRPID: rp.rpIDs,
+            authenticator: {
+                credentialID: Buffer.from(authenticator.credentialID, "base64url"),
+                counter: authenticator.counter,
+                credentialPublicKey: Buffer.from(authenticator.credentialPublicKey, "base64")
+            },
+            requireUserVerification,
+        });
+    } catch (e) {
+        console.log(e)
+        throw new PasskeyVerificationError();
+    }
+
+    return { authenticator, verification };
+}
 
 addMutationFields((t) => ({
     startRegistration: t.field({
@@ -39,11 +137,16 @@ addMutationFields((t) => ({
             id: t.arg.string({ required: true }),
             appId: t.arg.string({ required: false }),
         },
-        resolve: async (_, args) => {
-            const { db } = await createDBConnection({ mongoURI: process.env.DB_URI || "", dbName: process.env.DB_NAME || "" })
+        resolve: async (_, args, ctx) => {
+            const rp = getRelyingParty(await resolveApp({ appId: args.appId, caller: ctx.app }));
+            const rpID = selectRpID(rp, ctx.origin);
+
+            const passkeys = getPasskeyRepository();
 
             const userId = generateKey(args.id);
-            let user: UserModel | null = await db.collection<UserModel>("passkeys").findOne({ id: userId });
+            await assertCanEnroll(userId, ctx.principal);
+
+            let user: UserModel | null = await passkeys.findById(userId);
 
             if (!user) {
                 user = {
@@ -58,7 +161,7 @@ addMutationFields((t) => ({
             }
 
             const options = await generateRegistrationOptions({
-                rpName,
+                rpName: rp.name,
                 rpID,
                 userID: user.id,
                 userName: user.username,
@@ -82,15 +185,10 @@ addMutationFields((t) => ({
                 },
             });
 
-            await db.collection("passkeys").updateOne({ id: userId }, {
-                $set: {
-                    id: userId,
-                    username: user.username,
-                    currentChallenge: options.challenge,
-                }
-            }, { upsert: true })
+            await passkeys.upsertUser(userId, user.username);
+            const ceremonyId = await issueChallenge({ type: "registration", userId, challenge: options.challenge });
 
-            return JSON.stringify(options);
+            return JSON.stringify({ ...options, ceremonyId });
 
         },
     }),
@@ -99,34 +197,52 @@ addMutationFields((t) => ({
         args: {
             id: t.arg.string({ required: true }),
             response: t.arg.string({ required: true }),
+            nickname: t.arg.string({ required: false }),
+            ceremonyId: t.arg.string({ required: false }),
             appId: t.arg.string({ required: false }),
         },
-        resolve: async (_, args) => {
-            const { db } = await createDBConnection({ mongoURI: process.env.DB_URI || "", dbName: process.env.DB_NAME || "" })
+        resolve: async (_, args, ctx) => {
+            const rp = getRelyingParty(await resolveApp({ appId: args.appId, caller: ctx.app }));
+            assertOrigin(rp, ctx.origin);
+
+            const passkeys = getPasskeyRepository();
 
             const userId = generateKey(args.id);
-            let user: UserModel | null = await db.collection<UserModel>("passkeys").findOne({ id: userId });
+            // Checked again, the account may have been created since the ceremony started
+            await assertCanEnroll(userId, ctx.principal);
+
+            let user: UserModel | null = await passkeys.findById(userId);
+
+            if (!user) {
+                throw new AccountNotFoundError();
+            }
+
+            const data = parseResponse<RegistrationResponseJSON>(args.response);
+            const challenge = await consumeChallenge({ type: "registration", userId, ceremonyId: args.ceremonyId, response: data });
 
-            if (!user || !user.currentChallenge) {
-                throw new Error();
+            if (!challenge) {
+                throw new ChallengeExpiredError();
             }
 
             let verification;
-            const data = JSON.parse(args.response) as RegistrationResponseJSON;
             try {
                 verification = await verifyRegistrationResponse({
                     response: data,
-                    expectedChallenge: user?.currentChallenge,
-                    expectedOrigin: origin,
-                    expectedRPID: rpID,
+                    expectedChallenge: challenge.challenge,
+                    expectedOrigin: rp.origins,
+                    expectedRPID: rp.rpIDs,
                 });
             } catch (e) {
                 console.log(e)
-                throw new Error();
+                throw new PasskeyVerificationError();
             }
 
             const { verified, registrationInfo } = verification;
 
+            if (!verified) {
+                throw new PasskeyVerificationError();
+            }
+
             if (registrationInfo) {
                 const {
                     credentialPublicKey,
@@ -143,16 +259,16 @@ addMutationFields((t) => ({
                     credentialDeviceType,
                     credentialBackedUp,
                     transports: data.response.transports,
+                    nickname: args.nickname || undefined,
+                    createdAt: new Date(),
                 };
 
-                await db.collection<UserModel>("passkeys").updateOne({ id: userId }, {
-                    $push: {
-                        "authenticators": newAuthenticator
-                    }
-                })
+                await passkeys.addAuthenticator(userId, newAuthenticator);
+                await linkPasskey(userId, newAuthenticator.credentialID);
+                await emitAccountEvent(userId, "PASSKEY_ADDED", { passkeyId: newAuthenticator.credentialID, nickname: newAuthenticator.nickname || null });
             }
 
-            return verified;
+            return true;
 
         },
     }),
@@ -162,15 +278,18 @@ addMutationFields((t) => ({
             id: t.arg.string({ required: true }),
             appId: t.arg.string({ required: false }),
         },
-        resolve: async (_, args) => {
+        resolve: async (_, args, ctx) => {
+            const rp = getRelyingParty(await resolveApp({ appId: args.appId, caller: ctx.app }));
+            const rpID = selectRpID(rp, ctx.origin);
+
             console.log(args)
-            const { db } = await createDBConnection({ mongoURI: process.env.DB_URI || "", dbName: process.env.DB_NAME || "" })
+            const passkeys = getPasskeyRepository();
 
             const userId = generateKey(args.id);
-            let user: UserModel | null = await db.collection<UserModel>("passkeys").findOne({ id: userId });
+            let user: UserModel | null = await passkeys.findById(userId);
 
             if (!user) {
-                throw new Error("No user")
+                throw new AccountNotFoundError();
             }
 
             const options = await generateAuthenticationOptions({
@@ -185,75 +304,444 @@ addMutationFields((t) => ({
                 timeout: 1000,
             });
 
-            await db.collection("passkeys").updateOne({ id: userId }, {
-                $set: {
-                    currentChallenge: options.challenge,
-                }
-            })
+            const ceremonyId = await issueChallenge({ type: "authentication", userId, challenge: options.challenge });
 
-            return JSON.stringify(options);
+            return JSON.stringify({ ...options, ceremonyId });
         },
     }),
     finishAuthentication: t.field({
+        type: SessionType,
+        args: {
+            id: t.arg.string({ required: true }),
+            response: t.arg.string({ required: true }),
+            ceremonyId: t.arg.string({ required: false }),
+            appId: t.arg.string({ required: false }),
+        },
+        resolve: async (_, args, ctx) => {
+            assertSessionsEnabled();
+            const rp = getRelyingParty(await resolveApp({ appId: args.appId, caller: ctx.app }));
+            assertOrigin(rp, ctx.origin);
+
+            const passkeys = getPasskeyRepository();
+
+            const userId = generateKey(args.id);
+            let user: UserModel | null = await passkeys.findById(userId);
+
+            if (!user) {
+                throw new AccountNotFoundError();
+            }
+
+            const data = parseResponse<AuthenticationResponseJSON>(args.response);
+            const challenge = await consumeChallenge({ type: "authentication", userId, ceremonyId: args.ceremonyId, response: data });
+
+            if (!challenge) {
+                throw new ChallengeExpiredError();
+            }
+
+            const { authenticator, verification } = await verifyAssertion({
+                rp,
+                user,
+                response: data,
+                expectedChallenge: challenge.challenge,
+            });
+
+            const { verified, authenticationInfo } = verification;
+
+
+            if (authenticationInfo) {
+                const { newCounter } = authenticationInfo;
+                await passkeys.updateCounter(userId, authenticator.credentialID, newCounter);
+            }
+
+            if (!verified) {
+                throw new PasskeyVerificationError();
+            }
+
+            // A successful passkey login lifts a PIN lockout on the account, unless
+            // the passkey was added while the PIN was already failing
+            await clearAttempts(getAttemptKeys({ accountId: userId }), authenticator.createdAt);
+
+            return await createSession({ accountId: userId, appId: args.appId, method: "passkey" });
+
+        },
+    }),
+    startDiscoverableAuthentication: t.field({
+        type: "String",
+        args: {
+            appId: t.arg.string({ required: false }),
+        },
+        resolve: async (_, args, ctx) => {
+            const rp = getRelyingParty(await resolveApp({ appId: args.appId, caller: ctx.app }));
+            const rpID = selectRpID(rp, ctx.origin);
+
+            // No allowCredentials, the authenticator offers the resident keys it has for the RP
+            const options = await generateAuthenticationOptions({
+                rpID,
+                userVerification: 'preferred',
+            });
+
+            const ceremonyId = await issueChallenge({ type: "authentication", userId: null, challenge: options.challenge });
+
+            return JSON.stringify({ ...options, ceremonyId });
+        },
+    }),
+    finishDiscoverableAuthentication: t.field({
+        type: PasskeyLoginType,
+        args: {
+            response: t.arg.string({ required: true }),
+            ceremonyId: t.arg.string({ required: false }),
+            appId: t.arg.string({ required: false }),
+        },
+        resolve: async (_, args, ctx) => {
+            assertSessionsEnabled();
+            const rp = getRelyingParty(await resolveApp({ appId: args.appId, caller: ctx.app }));
+            assertOrigin(rp, ctx.origin);
+
+            const data = parseResponse<AuthenticationResponseJSON>(args.response);
+            const challenge = await consumeChallenge({ type: "authentication", userId: null, ceremonyId: args.ceremonyId, response: data });
+
+            if (!challenge) {
+                throw new ChallengeExpiredError();
+            }
+
+            const passkeys = getPasskeyRepository();
+            const user = await passkeys.findByCredentialId(data.id);
+
+            // The user handle is the account id given as userID on registration. The
+            // v9 browser client sends it as is, spec-style JSON base64url encodes it.
+            const userHandle = data.response.userHandle;
+
+            if (!user) {
+                throw new PasskeyNotFoundError();
+            }
+
+            if (userHandle && userHandle !== user.id && Buffer.from(userHandle, "base64url").toString("utf-8") !== user.id) {
+                throw new PasskeyVerificationError();
+            }
+
+            const { authenticator, verification } = await verifyAssertion({
+                rp,
+                user,
+                response: data,
+                expectedChallenge: challenge.challenge,
+            });
+
+            const { verified, authenticationInfo } = verification;
+
+            await passkeys.updateCounter(user.id, authenticator.credentialID, authenticationInfo.newCounter);
+
+            if (!verified) {
+                throw new PasskeyVerificationError();
+            }
+
+            await clearAttempts(getAttemptKeys({ accountId: user.id }), authenticator.createdAt);
+
+            const session = await createSession({ accountId: user.id, appId: args.appId, method: "passkey" });
+
+            return { id: user.username, accountId: user.id, session };
+        },
+    }),
+    // Starts a PIN reset, the assertion it asks for is only accepted by resetPin
+    startPinReset: t.field({
+        type: "String",
+        args: {
+            id: t.arg.string({ required: true }),
+            appId: t.arg.string({ required: false }),
+        },
+        resolve: async (_, args, ctx) => {
+            const rp = getRelyingParty(await resolveApp({ appId: args.appId, caller: ctx.app }));
+            const rpID = selectRpID(rp, ctx.origin);
+
+            const passkeys = getPasskeyRepository();
+
+            const userId = generateKey(args.id);
+            const user = await passkeys.findById(userId);
+
+            if (!user || !user.authenticators?.length) {
+                throw new AccountNotFoundError();
+            }
+
+            const options = await generateAuthenticationOptions({
+                rpID,
+                allowCredentials: user.authenticators.map(authenticator => ({
+                    id: Buffer.from(authenticator.credentialID, "base64url"),
+                    type: 'public-key',
+                    transports: authenticator.transports,
+                })),
+                userVerification: 'required',
+            });
+
+            const ceremonyId = await issueChallenge({ type: "reset", userId, challenge: options.challenge });
+
+            return JSON.stringify({ ...options, ceremonyId });
+        },
+    }),
+    resetPin: t.field({
         type: "Boolean",
         args: {
             id: t.arg.string({ required: true }),
+            newPin: t.arg.string({ required: true }),
             response: t.arg.string({ required: true }),
+            ceremonyId: t.arg.string({ required: false }),
             appId: t.arg.string({ required: false }),
         },
-        resolve: async (_, args) => {
-            const { db } = await createDBConnection({ mongoURI: process.env.DB_URI || "", dbName: process.env.DB_NAME || "" })
+        resolve: async (_, args, ctx) => {
+            const rp = getRelyingParty(await resolveApp({ appId: args.appId, caller: ctx.app }));
+            assertOrigin(rp, ctx.origin);
+
+            const passkeys = getPasskeyRepository();
 
             const userId = generateKey(args.id);
-            let user: UserModel | null = await db.collection<UserModel>("passkeys").findOne({ id: userId });
+            let user: UserModel | null = await passkeys.findById(userId);
+
+            if (!user) {
+                throw new AccountNotFoundError();
+            }
+
+            const data = parseResponse<AuthenticationResponseJSON>(args.response);
+            const challenge = await consumeChallenge({ type: "reset", userId, ceremonyId: args.ceremonyId, response: data });
 
-            if (!user || !user.currentChallenge) {
-                throw new Error();
+            if (!challenge) {
+                throw new ChallengeExpiredError();
             }
 
-            const data = JSON.parse(args.response) as AuthenticationResponseJSON;
+            // Resetting replaces the PIN entirely, so the user has to be verified
+            const { authenticator, verification } = await verifyAssertion({
+                rp,
+                user,
+                response: data,
+                expectedChallenge: challenge.challenge,
+                requireUserVerification: true,
+            });
+
+            // A passkey enrolled after the reset was requested can't vouch for it
+            if (authenticator.createdAt && authenticator.createdAt >= challenge.createdAt) {
+                throw new ForbiddenError("Passkey was added after the PIN reset was requested");
+            }
 
-            const authenticator = user.authenticators.find(authenticator => authenticator.credentialID === data.id)
+            const { verified, authenticationInfo } = verification;
 
-            if (!authenticator) {
-                throw new Error(`Could not find authenticator ${data.id} for user ${user.id}`);
+            await passkeys.updateCounter(userId, authenticator.credentialID, authenticationInfo.newCounter);
+
+            if (!verified) {
+                throw new PasskeyVerificationError();
             }
 
-            let verification;
+            await clearAttempts(getAttemptKeys({ accountId: userId }), authenticator.createdAt);
+
             try {
-                verification = await verifyAuthenticationResponse({
-                    response: data,
-                    expectedChallenge: user.currentChallenge,
-                    expectedOrigin: origin,
-                    expectedRPID: rpID,
-                    authenticator: {
-                        credentialID: Buffer.from(authenticator.credentialID, "base64url"),
-                        counter: authenticator.counter,
-                        credentialPublicKey: Buffer.from(authenticator.credentialPublicKey, "base64")
-                    },
-                });
+                return await rotatePin({ id: args.id, appIds: [args.appId], nextPin: args.newPin });
             } catch (e) {
-                console.log(e)
-                throw new Error();
+                if (e instanceof FuseError) {
+                    throw e;
+                }
+
+                console.log(e);
+                throw new PinChangeFailedError();
             }
+        },
+    }),
+    startSignChallenge: t.field({
+        type: "String",
+        args: {
+            id: t.arg.string({ required: true }),
+            tx: t.arg.string({ required: true }),
+            appId: t.arg.string({ required: false }),
+        },
+        resolve: async (_, args, ctx) => {
+            const rp = getRelyingParty(await resolveApp({ appId: args.appId, caller: ctx.app }));
+            const rpID = selectRpID(rp, ctx.origin);
 
-            const { verified, authenticationInfo } = verification;
+            const passkeys = getPasskeyRepository();
 
+            const userId = generateKey(args.id);
+            let user: UserModel | null = await passkeys.findById(userId);
 
-            if (authenticationInfo) {
-                const { newCounter } = authenticationInfo;
-                await db.collection<UserModel>("passkeys").updateOne({ id: userId }, {
-                    $set: {
-                        "authenticators.$[elem].counter": newCounter
-                    },
-                }, { arrayFilters: [{ "elem.credentialID": authenticator.credentialID }] })
+            if (!user || !user.authenticators?.length) {
+                throw new AccountNotFoundError();
             }
 
-            return verified;
+            const txHash = hashTransaction(args.tx);
+
+            const options = await generateAuthenticationOptions({
+                rpID,
+                // Bind the ceremony to this exact transaction, the random suffix
+                // keeps challenges unique when the same transaction is re-signed
+                challenge: new Uint8Array([...txHash, ...crypto.randomBytes(16)]),
+                allowCredentials: user.authenticators.map(authenticator => ({
+                    id: Buffer.from(authenticator.credentialID, "base64url"),
+                    type: 'public-key',
+                    transports: authenticator.transports,
+                })),
+                userVerification: 'required',
+            });
+
+            const ceremonyId = await issueChallenge({
+                type: "signing",
+                userId,
+                challenge: options.challenge,
+                signingTransaction: txHash.toString("hex"),
+            });
 
+            return JSON.stringify({ ...options, ceremonyId });
+        },
+    }),
+    signWithPasskey: t.field({
+        type: "String",
+        args: {
+            id: t.arg.string({ required: true }),
+            tx: t.arg.string({ required: true }),
+            response: t.arg.string({ required: true }),
+            ceremonyId: t.arg.string({ required: false }),
+            appId: t.arg.string({ required: false }),
+        },
+        resolve: async (_, args, ctx) => {
+            const rp = getRelyingParty(await resolveApp({ appId: args.appId, caller: ctx.app }));
+            assertOrigin(rp, ctx.origin);
+
+            const userId = generateKey(args.id);
+
+            if (ctx.principal && ctx.principal.accountId !== userId) {
+                throw new ForbiddenError("Session does not belong to this account");
+            }
+
+            const attempt = { accountId: userId, appId: args.appId, method: "passkey" as const, tx: args.tx, ua: ctx.ua, ip: ctx.ip };
+
+            try {
+                return await auditSigning(attempt, async () => {
+                    parseTransaction(args.tx);
+
+                    const passkeys = getPasskeyRepository();
+
+                    let user: UserModel | null = await passkeys.findById(userId);
+
+                    if (!user) {
+                        throw new AccountNotFoundError();
+                    }
+
+                    const data = parseResponse<AuthenticationResponseJSON>(args.response);
+
+                    // The challenge is single use whatever the outcome
+                    const challenge = await consumeChallenge({ type: "signing", userId, ceremonyId: args.ceremonyId, response: data });
+
+                    if (!challenge || !challenge.signingTransaction) {
+                        throw new ChallengeExpiredError();
+                    }
+
+                    const txHash = hashTransaction(args.tx);
+                    const challengeHash = Buffer.from(challenge.challenge, "base64url").subarray(0, txHash.length);
+
+                    if (challenge.signingTransaction !== txHash.toString("hex") || !challengeHash.equals(txHash)) {
+                        throw new ForbiddenError("Challenge was issued for a different transaction");
+                    }
+
+                    const { authenticator, verification } = await verifyAssertion({
+                        rp,
+                        user,
+                        response: data,
+                        expectedChallenge: challenge.challenge,
+                        requireUserVerification: true,
+                    });
+
+                    const { verified, authenticationInfo } = verification;
+
+                    await passkeys.updateCounter(userId, authenticator.credentialID, authenticationInfo.newCounter);
+
+                    if (!verified) {
+                        throw new PasskeyVerificationError();
+                    }
+
+                    const provider = getWalletProvider(args.appId);
+                    const wallet = await provider.lookup({ refId: userId, appId: args.appId });
+
+                    if (!wallet) {
+                        throw new AccountNotFoundError();
+                    }
+
+                    const release = await enforcePolicies({ accountId: userId, appId: args.appId, signer: wallet.address, tx: args.tx });
+
+                    try {
+                        return await provider.sign({
+                            refId: userId,
+                            appId: args.appId,
+                            authorization: { method: "passkey" },
+                            tx: args.tx,
+                        });
+                    } catch (e) {
+                        await release();
+                        throw e;
+                    }
+                });
+            } catch (e) {
+                if (e instanceof FuseError) {
+                    throw e;
+                }
+
+                console.log(e);
+                throw new SigningFailedError();
+            }
         },
     }),
 }));
 
+addQueryFields((t) => ({
+    passkeys: t.field({
+        type: [PasskeyType],
+        resolve: async (_, _args, ctx) => {
+            const principal = requirePrincipal(ctx.principal);
+            const user = await getPasskeyRepository().findById(principal.accountId);
 
+            return user?.authenticators || [];
+        },
+    }),
+}));
+
+addMutationFields((t) => ({
+    renamePasskey: t.field({
+        type: "Boolean",
+        args: {
+            credentialId: t.arg.string({ required: true }),
+            nickname: t.arg.string({ required: true }),
+        },
+        resolve: async (_, args, ctx) => {
+            const principal = requirePrincipal(ctx.principal);
+
+            if (!await getPasskeyRepository().renameAuthenticator(principal.accountId, args.credentialId, args.nickname.trim())) {
+                throw new PasskeyNotFoundError();
+            }
 
+            return true;
+        },
+    }),
+    revokePasskey: t.field({
+        type: "Boolean",
+        args: {
+            credentialId: t.arg.string({ required: true }),
+        },
+        resolve: async (_, args, ctx) => {
+            const principal = requirePrincipal(ctx.principal);
+            const passkeys = getPasskeyRepository();
+
+            const user = await passkeys.findById(principal.accountId);
+
+            if (!user?.authenticators.some(authenticator => authenticator.credentialID === args.credentialId)) {
+                throw new PasskeyNotFoundError();
+            }
+
+            // Without a PIN the last passkey is the only way back into the account
+            const hasPin = !!(await getAccount(principal.accountId))?.wallets.length;
+            const removed = await passkeys.removeAuthenticator(principal.accountId, args.credentialId, { keepLast: !hasPin });
+
+            if (!removed && !hasPin) {
+                throw new ForbiddenError("Cannot revoke the last passkey of an account without a PIN");
+            }
+
+            if (removed) {
+                await unlinkPasskey(principal.accountId, args.credentialId);
+                await emitAccountEvent(principal.accountId, "PASSKEY_REVOKED", { passkeyId: args.credentialId });
+            }
+
+            return removed;
+        },
+    }),
+}));
@@ -0,0 +1,106 @@
+import { AccountModel, AppMembershipModel, getAccountRepository, getPasskeyRepository } from "@/repositories";
+import { WalletAccount, getWalletProvider } from "@/providers";
+
+/**
+ * Resolves the account of a hashed identifier. Accounts registered before
+ * they were recorded are filled in from the wallet providers on first read.
+ */
+export async function getAccount(refId: string): Promise<AccountModel | null> {
+    const repository = getAccountRepository();
+    const account = await repository.findById(refId);
+
+    if (account) {
+        return account;
+    }
+
+    const wallets = await getWalletProvider().list({ refId });
+    const user = await getPasskeyRepository().findById(refId);
+
+    if (!wallets.length && !user?.authenticators.length) {
+        return null;
+    }
+
+    await repository.saveWallets(refId, wallets);
+
+    for (const authenticator of user?.authenticators || []) {
+        await repository.linkPasskey(refId, authenticator.credentialID);
+    }
+
+    return repository.findById(refId);
+}
+
+/**
+ * Resolves the account's membership of an app, recording memberships whose
+ * wallets were created before accounts were.
+ */
+export async function getMembership(refId: string, appId: string): Promise<AppMembershipModel | null> {
+    const account = await getAccount(refId);
+
+    if (!account) {
+        return null;
+    }
+
+    const membership = account.apps.find(app => app.appId === appId);
+
+    if (membership) {
+        return membership;
+    }
+
+    const wallets = await getWalletProvider(appId).list({ refId, appId });
+
+    if (!wallets.length) {
+        return null;
+    }
+
+    return addMembership(refId, appId, wallets);
+}
+
+/**
+ * Whether the identifier has a Simpl3 account, and whether it joined the
+ * app. Without an app the default wallet set is the one asked about.
+ */
+export async function getAccountStatus(refId: string, appId?: string | null) {
+    const account = await getAccount(refId);
+    const isRegistered = !!account?.wallets.length;
+
+    return {
+        isRegistered,
+        isRegisteredInApp: appId ? !!(await getMembership(refId, appId)) : isRegistered,
+    };
+}
+
+/** Wallets of the account in the app's wallet set, or the default one. */
+export async function getAccountWallets(refId: string, appId?: string | null) {
+    if (appId) {
+        return (await getMembership(refId, appId))?.wallets || [];
+    }
+
+    return (await getAccount(refId))?.wallets || [];
+}
+
+export async function saveAccountWallets(refId: string, wallets: WalletAccount[]) {
+    await getAccountRepository().saveWallets(refId, wallets);
+}
+
+/**
+ * Records the account joining an app. The account is filled in first, so a
+ * partial record never hides wallets it had before it was recorded.
+ */
+export async function addMembership(refId: string, appId: string, wallets: WalletAccount[]) {
+    const membership = { appId, wallets, joinedAt: new Date() };
+
+    await getAccount(refId);
+    await getAccountRepository().saveMembership(refId, membership);
+
+    return membership;
+}
+
+/** Links a new passkey, filling the account in first like `addMembership`. */
+export async function linkPasskey(refId: string, credentialID: string) {
+    await getAccount(refId);
+    await getAccountRepository().linkPasskey(refId, credentialID);
+}
+
+export async function unlinkPasskey(refId: string, credentialID: string) {
+    await getAccountRepository().unlinkPasskey(refId, credentialID);
+}
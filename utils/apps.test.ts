@@ -0,0 +1,87 @@
+import crypto from "crypto";
+import { describe, expect, it, vi } from "vitest";
+
+import { authenticateApp, createApp, isAdminKey, resolveApp, rotateApiKey, updateApp } from "@/utils/apps";
+
+function newAppId() {
+    return crypto.randomUUID();
+}
+
+describe("createApp", () => {
+    it("issues an API key that authenticates as the app", async () => {
+        const { app, apiKey } = await createApp({ id: newAppId(), name: "App" });
+
+        expect(apiKey).toMatch(/^s3k\.[0-9a-f]+\./);
+        expect(app.apiKeys?.[0].hash).not.toContain(apiKey.split(".")[2]);
+        expect(await authenticateApp(apiKey)).toEqual({ appId: app.id, keyId: app.apiKeys?.[0].id });
+    });
+
+    it("refuses an id that is taken", async () => {
+        const id = newAppId();
+        await createApp({ id, name: "App" });
+
+        await expect(createApp({ id, name: "Other" })).rejects.toThrow("App already exists");
+    });
+});
+
+describe("authenticateApp", () => {
+    it("refuses malformed and tampered keys", async () => {
+        const { apiKey } = await createApp({ id: newAppId(), name: "App" });
+        const [prefix, id] = apiKey.split(".");
+
+        expect(await authenticateApp("not-a-key")).toBeNull();
+        expect(await authenticateApp(`${prefix}.${id}.wrong`)).toBeNull();
+        expect(await authenticateApp(`${prefix}.unknown.secret`)).toBeNull();
+    });
+});
+
+describe("updateApp", () => {
+    it("leaves settings passed as null alone", async () => {
+        const { app } = await createApp({ id: newAppId(), name: "App", origins: ["https://app.example"] });
+
+        const updated = await updateApp(app.id, { name: "Renamed", origins: null });
+
+        expect(updated).toMatchObject({ name: "Renamed", origins: ["https://app.example"] });
+    });
+});
+
+describe("rotateApiKey", () => {
+    it("keeps the previous key working for the grace period", async () => {
+        const { app, apiKey: previous } = await createApp({ id: newAppId(), name: "App" });
+        const { apiKey } = await rotateApiKey(app.id);
+
+        expect(await authenticateApp(apiKey)).toMatchObject({ appId: app.id });
+        expect(await authenticateApp(previous)).toMatchObject({ appId: app.id });
+
+        vi.useFakeTimers({ toFake: ["Date"] });
+        try {
+            vi.setSystemTime(Date.now() + 25 * 60 * 60 * 1000);
+
+            expect(await authenticateApp(previous)).toBeNull();
+            expect(await authenticateApp(apiKey)).toMatchObject({ appId: app.id });
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+});
+
+describe("resolveApp", () => {
+    it("keeps callers to their own app", async () => {
+        const { app } = await createApp({ id: newAppId(), name: "App" });
+        const caller = { appId: app.id, keyId: "key" };
+
+        expect(await resolveApp({ appId: null, caller: null })).toBeNull();
+        expect(await resolveApp({ appId: app.id, caller })).toMatchObject({ id: app.id });
+        await expect(resolveApp({ appId: app.id, caller: { appId: newAppId(), keyId: "key" } })).rejects.toThrow("different app");
+        await expect(resolveApp({ appId: app.id, caller: null, requireKey: true })).rejects.toThrow("API key required");
+        await expect(resolveApp({ appId: newAppId(), caller: null })).rejects.toThrow("Unknown app");
+    });
+});
+
+describe("isAdminKey", () => {
+    it("refuses missing and wrong keys", () => {
+        expect(isAdminKey(null)).toBe(false);
+        expect(isAdminKey("")).toBe(false);
+        expect(isAdminKey("anything")).toBe(false);
+    });
+});
@@ -0,0 +1,175 @@
+import "dotenv/config";
+import crypto from "crypto";
+import { AuthenticationError, BadRequestError, ForbiddenError, NotFoundError } from "fuse";
+
+import { ApiKeyModel, AppModel, getAppRepository } from "@/repositories";
+import type { WalletChain } from "@/providers";
+
+const adminApiKey = process.env.ADMIN_API_KEY || "";
+const rotationGrace = Number(process.env.API_KEY_ROTATION_GRACE || 24 * 60 * 60);
+
+const keyPrefix = "s3k";
+
+export type AppPrincipal = {
+    appId: string;
+    keyId: string;
+};
+
+export type AppSettings = {
+    name: string;
+    rpIDs?: string[] | null;
+    origins?: string[] | null;
+    walletSetId?: string | null;
+    chains?: WalletChain[] | null;
+};
+
+function hashSecret(secret: string) {
+    return crypto.createHash("sha256").update(secret).digest();
+}
+
+function safeEqual(a: Buffer, b: Buffer) {
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+// Keys look like `s3k.<id>.<secret>`, only the hash of the secret is stored
+function issueApiKey(): { apiKey: string; model: ApiKeyModel } {
+    const id = crypto.randomBytes(8).toString("hex");
+    const secret = crypto.randomBytes(32).toString("base64url");
+
+    return {
+        apiKey: [keyPrefix, id, secret].join("."),
+        model: { id, hash: hashSecret(secret).toString("hex"), createdAt: new Date() },
+    };
+}
+
+// GraphQL passes omitted arguments as null, which should leave the setting alone
+type AppSettingsUpdate = { [K in keyof AppSettings]?: AppSettings[K] | null };
+
+function toSettings(settings: AppSettingsUpdate) {
+    return Object.fromEntries(
+        Object.entries(settings).filter(([, value]) => value != null)
+    ) as Partial<Pick<AppModel, keyof AppSettings>>;
+}
+
+export function isAdminKey(value: string | null) {
+    if (!adminApiKey || !value) {
+        return false;
+    }
+
+    return safeEqual(hashSecret(value), hashSecret(adminApiKey));
+}
+
+export async function authenticateApp(apiKey: string): Promise<AppPrincipal | null> {
+    const [prefix, id, secret] = apiKey.split(".");
+
+    if (prefix !== keyPrefix || !id || !secret) {
+        return null;
+    }
+
+    const app = await getAppRepository().findByApiKeyId(id);
+    const key = app?.apiKeys?.find(key => key.id === id);
+
+    if (!app || !key || (key.expiresAt && key.expiresAt <= new Date())) {
+        return null;
+    }
+
+    if (!safeEqual(hashSecret(secret), Buffer.from(key.hash, "hex"))) {
+        return null;
+    }
+
+    return { appId: app.id, keyId: key.id };
+}
+
+export async function createApp({ id, ...settings }: AppSettings & { id?: string | null }) {
+    const apps = getAppRepository();
+    const appId = id || crypto.randomUUID();
+
+    if (await apps.findById(appId)) {
+        throw new BadRequestError("App already exists");
+    }
+
+    const { apiKey, model } = issueApiKey();
+    const now = new Date();
+
+    const app: AppModel = {
+        rpIDs: [],
+        origins: [],
+        ...toSettings(settings),
+        id: appId,
+        name: settings.name,
+        apiKeys: [model],
+        createdAt: now,
+        updatedAt: now,
+    };
+
+    await apps.save(app);
+
+    return { app, apiKey };
+}
+
+export async function updateApp(id: string, settings: AppSettingsUpdate) {
+    const apps = getAppRepository();
+    const app = await apps.findById(id);
+
+    if (!app) {
+        throw new NotFoundError("Unknown app");
+    }
+
+    const updated = { ...app, ...toSettings(settings), updatedAt: new Date() };
+    await apps.save(updated);
+
+    return updated;
+}
+
+/**
+ * Issues a new API key. Keys issued before stay valid for the rotation grace
+ * period so integrations can be redeployed without downtime.
+ */
+export async function rotateApiKey(id: string) {
+    const apps = getAppRepository();
+    const app = await apps.findById(id);
+
+    if (!app) {
+        throw new NotFoundError("Unknown app");
+    }
+
+    const now = new Date();
+    const graceEnd = new Date(now.getTime() + rotationGrace * 1000);
+
+    const previous = (app.apiKeys || [])
+        .filter(key => !key.expiresAt || key.expiresAt > now)
+        .map(key => ({ ...key, expiresAt: key.expiresAt && key.expiresAt < graceEnd ? key.expiresAt : graceEnd }));
+
+    const { apiKey, model } = issueApiKey();
+    const updated = { ...app, apiKeys: [...previous, model], updatedAt: now };
+
+    await apps.save(updated);
+
+    return { app: updated, apiKey };
+}
+
+/**
+ * Validates an `appId` argument against the registry. A calling app can only
+ * act for itself, and operations that create wallets need its API key.
+ */
+export async function resolveApp({ appId, caller, requireKey }: { appId?: string | null; caller: AppPrincipal | null; requireKey?: boolean; }) {
+    if (!appId) {
+        return null;
+    }
+
+    if (caller && caller.appId !== appId) {
+        throw new ForbiddenError("API key belongs to a different app");
+    }
+
+    if (requireKey && !caller) {
+        throw new AuthenticationError("API key required for this app");
+    }
+
+    const app = await getAppRepository().findById(appId);
+
+    if (!app) {
+        throw new NotFoundError("Unknown app");
+    }
+
+    return app;
+}
@@ -0,0 +1,102 @@
+import crypto from "crypto";
+
+import { SigningRecord, getSigningAuditRepository } from "@/repositories";
+import { emitEvent } from "@/utils/webhooks";
+import { deserializeTransaction, getMessageBytes, getProgramIds } from "@/utils/transaction";
+import { decodeCursor, getPageSize, toPage } from "@/utils/cursor";
+import type { AuthMethod } from "@/utils/session";
+
+export type SigningAttempt = {
+    accountId: string;
+    appId?: string | null;
+    method: AuthMethod;
+    ua?: string | null;
+    ip?: string | null;
+} & ({ tx: string } | { message: Uint8Array });
+
+function describe(attempt: SigningAttempt): Pick<SigningRecord, "kind" | "hash" | "programIds"> {
+    if ("message" in attempt) {
+        return {
+            kind: "message",
+            hash: crypto.createHash("sha256").update(attempt.message).digest("hex"),
+            programIds: [],
+        };
+    }
+
+    try {
+        const transaction = deserializeTransaction(attempt.tx);
+
+        return {
+            kind: "transaction",
+            hash: crypto.createHash("sha256").update(getMessageBytes(transaction)).digest("hex"),
+            programIds: getProgramIds(transaction),
+        };
+    } catch (e) {
+        // Malformed transactions are still recorded, there is just nothing to describe
+        return { kind: "transaction", hash: null, programIds: [] };
+    }
+}
+
+/**
+ * Appends the outcome of an attempt, a failure when `error` is set. Apps
+ * hear about signatures made through them by webhook.
+ */
+export async function recordSigning(attempt: SigningAttempt, error?: string) {
+    const record: SigningRecord = {
+        id: crypto.randomUUID(),
+        accountId: attempt.accountId,
+        appId: attempt.appId || null,
+        method: attempt.method,
+        ...describe(attempt),
+        status: error === undefined ? "success" : "failure",
+        ...(error === undefined ? {} : { error }),
+        ua: attempt.ua || null,
+        ip: attempt.ip || null,
+        createdAt: new Date(),
+    };
+
+    await getSigningAuditRepository().append(record);
+
+    if (record.appId && record.status === "success") {
+        await emitEvent(record.appId, record.kind === "transaction" ? "TRANSACTION_SIGNED" : "MESSAGE_SIGNED", {
+            accountId: record.accountId,
+            signingRecordId: record.id,
+            method: record.method,
+            hash: record.hash,
+            programIds: record.programIds,
+        });
+    }
+}
+
+/**
+ * Runs a signing attempt and appends its outcome to the audit log. A `null`
+ * result counts as a refused authorization, errors are recorded and rethrown.
+ * If the record can't be written the signature is not handed out.
+ */
+export async function auditSigning<T>(attempt: SigningAttempt, sign: () => Promise<T | null>): Promise<T | null> {
+    let result: T | null;
+
+    try {
+        result = await sign();
+    } catch (e) {
+        await recordSigning(attempt, e instanceof Error ? e.message : String(e));
+        throw e;
+    }
+
+    await recordSigning(attempt, result === null ? "Authorization failed" : undefined);
+
+    return result;
+}
+
+export async function listSigningHistory({ accountId, appId, first, after }: { accountId?: string; appId?: string; first?: number | null; after?: string | null }) {
+    const limit = getPageSize(first);
+
+    const records = await getSigningAuditRepository().list({
+        accountId,
+        appId,
+        after: after ? decodeCursor(after) : undefined,
+        limit: limit + 1,
+    });
+
+    return toPage(records, limit);
+}
@@ -0,0 +1,80 @@
+import crypto from "crypto";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { memoryProvider } from "@/providers/memory.provider";
+import { authorizePin, requirePin } from "@/utils/authorize";
+import { generateKey } from "@/utils/crypto";
+import { AccountLockedError, AccountNotFoundError, InvalidPinError } from "@/utils/errors";
+import { deriveAccountKeys, deriveKeys, getKdfParams } from "@/utils/kdf";
+import { registerAccount } from "@/utils/registration";
+
+async function register(id: string, pin: string) {
+    const { success, error } = await registerAccount({ id, pin, chains: ["SOL-DEVNET"] });
+
+    expect({ success, error }).toEqual({ success: true, error: undefined });
+}
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe("authorizePin", () => {
+    it("locks the account after a wrong PIN until the backoff is over", async () => {
+        const id = crypto.randomUUID();
+        await register(id, "1234");
+
+        expect(await authorizePin({ id, pin: "0000" })).toBeNull();
+        await expect(authorizePin({ id, pin: "1234" })).rejects.toThrow(AccountLockedError);
+
+        vi.useFakeTimers({ toFake: ["Date"] });
+        vi.setSystemTime(Date.now() + 2000);
+
+        expect(await authorizePin({ id, pin: "1234" })).not.toBeNull();
+    });
+
+    it("locks every account tried from a client that keeps failing", async () => {
+        const client = crypto.randomUUID();
+        const id = crypto.randomUUID();
+        await register(id, "1234");
+
+        expect(await authorizePin({ id: crypto.randomUUID(), pin: "0000", client })).toBeNull();
+        await expect(authorizePin({ id, pin: "1234", client })).rejects.toThrow(AccountLockedError);
+        expect(await authorizePin({ id, pin: "1234" })).not.toBeNull();
+    });
+});
+
+describe("authorizePin with legacy keys", () => {
+    it("moves accounts without KDF params to the KDF on first use", async () => {
+        const id = crypto.randomUUID();
+        const refId = generateKey(id);
+        const legacy = await deriveKeys({ id, pin: "1234", params: null });
+        await memoryProvider.create({ refId, appId: null, keys: legacy, chains: ["SOL-DEVNET"] });
+
+        const authorization = await authorizePin({ id, pin: "1234" });
+
+        expect(authorization?.keys.params).toEqual(await getKdfParams(refId));
+        expect(authorization?.keys.params).not.toBeNull();
+        expect(await memoryProvider.verifySecurity({ refId, appId: null, keys: authorization!.keys })).not.toBeNull();
+        expect(await memoryProvider.verifySecurity({ refId, appId: null, keys: legacy })).toBeNull();
+    });
+
+    it("moves wallets that still carry the legacy keys", async () => {
+        const id = crypto.randomUUID();
+        const refId = generateKey(id);
+        await register(id, "1234");
+        await memoryProvider.create({ refId, appId: "legacy-app", keys: await deriveKeys({ id, pin: "1234", params: null }), chains: ["SOL-DEVNET"] });
+
+        expect(await authorizePin({ id, pin: "1234", appId: "legacy-app" })).not.toBeNull();
+        expect(await memoryProvider.verifySecurity({ refId, appId: "legacy-app", keys: await deriveAccountKeys({ id, pin: "1234" }) })).not.toBeNull();
+    });
+});
+
+describe("requirePin", () => {
+    it("tells a wrong PIN apart from a missing wallet", async () => {
+        const id = crypto.randomUUID();
+        await register(id, "1234");
+
+        await expect(requirePin({ id: crypto.randomUUID(), pin: "1234" })).rejects.toThrow(AccountNotFoundError);
+        await expect(requirePin({ id, pin: "0000" })).rejects.toThrow(InvalidPinError);
+    });
+});
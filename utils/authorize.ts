@@ -0,0 +1,82 @@
+import { generateKey } from "@/utils/crypto";
+import { DerivedKeys, deriveAccountKeys, deriveKeys } from "@/utils/kdf";
+import { rotatePin } from "@/utils/pin";
+import { getAttemptKeys, throttleAttempt } from "@/utils/throttle";
+import { AccountNotFoundError, InvalidPinError } from "@/utils/errors";
+import { WalletAccount, WalletProvider, getWalletProvider } from "@/providers";
+
+export type PinAuthorization = {
+    refId: string;
+    appId?: string | null;
+    keys: DerivedKeys;
+    wallet: WalletAccount;
+    provider: WalletProvider;
+};
+
+/**
+ * Checks a PIN against the account's wallet for the app, counting failures
+ * towards the lockout. Legacy keys are upgraded along the way so the returned
+ * keys are always the current ones.
+ */
+export async function authorizePin({ id, pin, appId, client }: { id: string; pin: string; appId?: string | null; client?: string | null; }): Promise<PinAuthorization | null> {
+    const refId = generateKey(id);
+    const provider = getWalletProvider(appId);
+
+    const result = await throttleAttempt(getAttemptKeys({ accountId: refId, client }), async () => {
+        // Derived only once the lockout check passed, scrypt is deliberately slow
+        const keys = await deriveAccountKeys({ id, pin });
+        const wallet = await provider.verifySecurity({ refId, appId, keys });
+
+        if (wallet || !keys.params) {
+            return wallet && { keys, wallet };
+        }
+
+        // Wallets that were not used since the KDF upgrade still carry the legacy value
+        const legacy = await deriveKeys({ id, pin, params: null });
+        const legacyWallet = await provider.verifySecurity({ refId, appId, keys: legacy });
+
+        if (!legacyWallet) {
+            return null;
+        }
+
+        await provider.rekey({ refId, appId, current: [legacy], next: keys });
+
+        return { keys, wallet: legacyWallet };
+    });
+
+    if (!result) {
+        return null;
+    }
+
+    let keys = result.keys;
+
+    if (!keys.params) {
+        // Accounts derived with plain SHA-256 are moved to the salted KDF on first use
+        try {
+            await rotatePin({ id, appIds: [appId], currentPin: pin, nextPin: pin });
+            keys = await deriveAccountKeys({ id, pin });
+        } catch (e) {
+            console.log(e);
+        }
+    }
+
+    return { refId, appId, keys, wallet: result.wallet, provider };
+}
+
+/**
+ * Like `authorizePin`, but tells a wrong PIN apart from an account that has
+ * no wallet for the app.
+ */
+export async function requirePin(input: { id: string; pin: string; appId?: string | null; client?: string | null; }) {
+    const authorization = await authorizePin(input);
+
+    if (authorization) {
+        return authorization;
+    }
+
+    if (!await getWalletProvider(input.appId).lookup({ refId: generateKey(input.id), appId: input.appId })) {
+        throw new AccountNotFoundError();
+    }
+
+    throw new InvalidPinError();
+}
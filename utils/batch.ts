@@ -0,0 +1,83 @@
+import { FuseError } from "fuse";
+
+import { PinAuthorization } from "@/utils/authorize";
+import { recordSigning } from "@/utils/audit";
+import { enforcePolicies } from "@/utils/policy";
+import { parseTransaction } from "@/utils/transaction";
+import { getErrorCode } from "@/utils/errors";
+
+export const maxBatchSize = 20;
+
+export type BatchResult = {
+    index: number;
+    // The partially signed transaction, null when the item failed
+    tx: string | null;
+    error: string | null;
+    code: string | null;
+};
+
+/**
+ * Signs every transaction of a batch with a single unlock of the wallet. A
+ * transaction that is malformed, breaks a policy or fails to sign only fails
+ * its own item, and each one gets its own audit record.
+ */
+export async function signBatch({ authorization, txs, ua, ip }: { authorization: PinAuthorization; txs: string[]; ua?: string | null; ip?: string | null }) {
+    const { provider, refId, appId, keys, wallet } = authorization;
+
+    const results: BatchResult[] = txs.map((_, index) => ({ index, tx: null, error: null, code: null }));
+    // What the audit log gets, which may say more than the caller is told
+    const reasons: (string | undefined)[] = txs.map(() => undefined);
+
+    const fail = (index: number, e: unknown) => {
+        reasons[index] = e instanceof Error ? e.message : String(e);
+
+        if (e instanceof FuseError) {
+            results[index].error = e.message;
+        } else {
+            console.log(e);
+            results[index].error = "Signing failed";
+        }
+
+        results[index].code = getErrorCode(e, "SIGNING_FAILED");
+    };
+
+    const releases = new Map<number, () => Promise<void>>();
+
+    for (const [index, tx] of txs.entries()) {
+        try {
+            parseTransaction(tx);
+
+            // One at a time, so each transaction counts towards the daily limits of the next
+            releases.set(index, await enforcePolicies({ accountId: refId, appId, signer: wallet.address, tx }));
+        } catch (e) {
+            fail(index, e);
+        }
+    }
+
+    const pending = [...releases.keys()];
+
+    if (pending.length) {
+        let settled: PromiseSettledResult<string>[];
+
+        try {
+            settled = await provider.signAll({ refId, appId, authorization: { method: "pin", keys }, txs: pending.map(index => txs[index]) });
+        } catch (e) {
+            settled = pending.map(() => ({ status: "rejected", reason: e }));
+        }
+
+        for (const [position, index] of pending.entries()) {
+            const result = settled[position];
+
+            if (result.status === "fulfilled") {
+                results[index].tx = result.value;
+            } else {
+                await releases.get(index)!();
+                fail(index, result.reason);
+            }
+        }
+    }
+
+    await Promise.all(txs.map((tx, index) => recordSigning({ accountId: refId, appId, method: "pin", tx, ua, ip }, reasons[index])));
+
+    return results;
+}
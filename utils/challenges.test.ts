@@ -0,0 +1,71 @@
+import crypto from "crypto";
+import { describe, expect, it, vi } from "vitest";
+
+import { consumeChallenge, issueChallenge } from "@/utils/challenges";
+
+// Client data as the authenticator echoes it, carrying the challenge it signed
+function responseFor(challenge: string) {
+    return { response: { clientDataJSON: Buffer.from(JSON.stringify({ challenge })).toString("base64url") } };
+}
+
+describe("consumeChallenge", () => {
+    it("hands out a challenge only once", async () => {
+        const userId = crypto.randomUUID();
+        const challenge = crypto.randomUUID();
+        const ceremonyId = await issueChallenge({ type: "authentication", userId, challenge });
+
+        expect(await consumeChallenge({ type: "authentication", userId, ceremonyId, response: responseFor(challenge) })).toMatchObject({ id: ceremonyId, challenge });
+        expect(await consumeChallenge({ type: "authentication", userId, ceremonyId, response: responseFor(challenge) })).toBeNull();
+        expect(await consumeChallenge({ type: "authentication", userId, response: responseFor(challenge) })).toBeNull();
+    });
+
+    it("matches the challenge in the client data without a ceremony ID", async () => {
+        const challenge = crypto.randomUUID();
+        await issueChallenge({ type: "authentication", userId: null, challenge, signingTransaction: "tx" });
+
+        expect(await consumeChallenge({ type: "authentication", userId: null, response: { response: { clientDataJSON: "not json" } } })).toBeNull();
+        expect(await consumeChallenge({ type: "authentication", userId: null, response: responseFor(crypto.randomUUID()) })).toBeNull();
+        expect(await consumeChallenge({ type: "authentication", userId: null, response: responseFor(challenge) })).toMatchObject({ challenge, signingTransaction: "tx" });
+    });
+
+    it("refuses the challenge of another user", async () => {
+        const challenge = crypto.randomUUID();
+        const ceremonyId = await issueChallenge({ type: "registration", userId: crypto.randomUUID(), challenge });
+
+        expect(await consumeChallenge({ type: "registration", userId: crypto.randomUUID(), ceremonyId, response: responseFor(challenge) })).toBeNull();
+    });
+
+    it("refuses expired challenges", async () => {
+        const userId = crypto.randomUUID();
+        const challenge = crypto.randomUUID();
+        const ceremonyId = await issueChallenge({ type: "authentication", userId, challenge });
+
+        vi.useFakeTimers({ toFake: ["Date"] });
+        try {
+            vi.setSystemTime(Date.now() + 6 * 60 * 1000);
+
+            expect(await consumeChallenge({ type: "authentication", userId, ceremonyId, response: responseFor(challenge) })).toBeNull();
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+
+    it("keeps reset ceremonies apart from logins", async () => {
+        const userId = crypto.randomUUID();
+        const challenge = crypto.randomUUID();
+        const ceremonyId = await issueChallenge({ type: "authentication", userId, challenge });
+
+        expect(await consumeChallenge({ type: "reset", userId, ceremonyId, response: responseFor(challenge) })).toBeNull();
+        expect(await consumeChallenge({ type: "reset", userId, response: responseFor(challenge) })).toBeNull();
+        expect(await consumeChallenge({ type: "authentication", userId, ceremonyId, response: responseFor(challenge) })).toMatchObject({ challenge });
+    });
+
+    it("hands out a reset challenge to resetPin", async () => {
+        const userId = crypto.randomUUID();
+        const challenge = crypto.randomUUID();
+        await issueChallenge({ type: "reset", userId, challenge });
+
+        expect(await consumeChallenge({ type: "authentication", userId, response: responseFor(challenge) })).toBeNull();
+        expect(await consumeChallenge({ type: "reset", userId, response: responseFor(challenge) })).toMatchObject({ type: "reset", challenge });
+    });
+});
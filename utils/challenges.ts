@@ -0,0 +1,48 @@
+import "dotenv/config";
+import crypto from "crypto";
+
+import { CeremonyType, ChallengeModel, getChallengeRepository } from "@/repositories";
+
+const challengeTTL = Number(process.env.WEBAUTHN_CHALLENGE_TTL || 5 * 60);
+
+export async function issueChallenge({ type, userId, challenge, signingTransaction }: Pick<ChallengeModel, "type" | "userId" | "challenge" | "signingTransaction">) {
+    const now = new Date();
+    const id = crypto.randomUUID();
+
+    await getChallengeRepository().create({
+        id,
+        type,
+        userId,
+        challenge,
+        ...(signingTransaction ? { signingTransaction } : {}),
+        createdAt: now,
+        expiresAt: new Date(now.getTime() + challengeTTL * 1000),
+    });
+
+    return id;
+}
+
+// The challenge the authenticator signed, as echoed in its client data
+function getClientChallenge(response: { response: { clientDataJSON: string } }) {
+    try {
+        const clientData = JSON.parse(Buffer.from(response.response.clientDataJSON, "base64url").toString("utf-8"));
+
+        return typeof clientData.challenge === "string" ? clientData.challenge : undefined;
+    } catch (e) {
+        return undefined;
+    }
+}
+
+/**
+ * Takes the pending challenge of a ceremony out of the store before the
+ * response is verified, so it can never be used twice. Clients that don't
+ * send the ceremony ID are matched on the challenge in their client data.
+ */
+export async function consumeChallenge({ type, userId, ceremonyId, response }: { type: CeremonyType; userId: string | null; ceremonyId?: string | null; response: { response: { clientDataJSON: string } } }) {
+    return getChallengeRepository().consume({
+        type,
+        userId,
+        id: ceremonyId || undefined,
+        challenge: ceremonyId ? undefined : getClientChallenge(response),
+    });
+}
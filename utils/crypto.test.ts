@@ -0,0 +1,55 @@
+import crypto from "crypto";
+import { describe, expect, it } from "vitest";
+
+import { decryptData, encryptData, generateKey, isLegacyCiphertext } from "@/utils/crypto";
+
+const key = generateKey("account$1234");
+const credentials = { pubKey: "pub", privKey: "priv" };
+
+// How records were written before the authenticated envelope
+function encryptLegacy(data: object, key: string) {
+    const cipher = crypto.createCipheriv("aes-256-cbc", Buffer.from(key, "hex"), Buffer.from(process.env.IV_KEY!, "hex"));
+
+    return cipher.update(JSON.stringify(data), "utf-8", "hex") + cipher.final("hex");
+}
+
+describe("encryptData", () => {
+    it("round trips credentials through the envelope", () => {
+        const data = encryptData(credentials, key);
+
+        expect(data.startsWith("$")).toBe(true);
+        expect(isLegacyCiphertext(data)).toBe(false);
+        expect(decryptData(data, key)).toEqual(credentials);
+    });
+
+    it("uses a fresh nonce for every record", () => {
+        expect(encryptData(credentials, key)).not.toBe(encryptData(credentials, key));
+    });
+
+    it("rejects a tampered ciphertext", () => {
+        const envelope = Buffer.from(encryptData(credentials, key).slice(1), "base64");
+        envelope[envelope.length - 1] ^= 1;
+
+        expect(() => decryptData("$" + envelope.toString("base64"), key)).toThrow();
+    });
+
+    it("rejects the wrong key", () => {
+        expect(() => decryptData(encryptData(credentials, key), generateKey("account$0000"))).toThrow();
+    });
+
+    it("rejects unknown envelope versions", () => {
+        const envelope = Buffer.from(encryptData(credentials, key).slice(1), "base64");
+        envelope[0] = 2;
+
+        expect(() => decryptData("$" + envelope.toString("base64"), key)).toThrow("Unsupported envelope version 2");
+    });
+});
+
+describe("decryptData", () => {
+    it("still reads legacy AES-CBC records", () => {
+        const data = encryptLegacy(credentials, key);
+
+        expect(isLegacyCiphertext(data)).toBe(true);
+        expect(decryptData(data, key)).toEqual(credentials);
+    });
+});
@@ -1,12 +1,8 @@
 import crypto from "crypto";
 import "dotenv/config";
-import { initiateDeveloperControlledWalletsClient } from "@circle-fin/developer-controlled-wallets";
 import base58 from "bs58";
 
 const iv = process.env.IV_KEY;
-const secret = process.env.CIRCLE_CYPHER;
-const apiKey = process.env.CIRCLE_API_KEY;
-const defaultAppId = process.env.CIRCLE_DEFAULT_SET || "";
 
 export function generateKey(value: string) {
     return crypto.createHash("sha256").update(value).digest("hex");
@@ -17,7 +13,18 @@ export type Credentials = {
     privKey: string;
 };
 
-export function decryptData(data: string, key: string) {
+// Envelopes are "$" followed by base64 of version byte, nonce, auth tag and
+// ciphertext. Legacy AES-CBC records are plain hex so they never start with "$".
+const envelopePrefix = "$";
+const envelopeVersion = 1;
+const nonceLength = 12;
+const tagLength = 16;
+
+export function isLegacyCiphertext(data: string) {
+    return !data.startsWith(envelopePrefix);
+}
+
+function decryptLegacyData(data: string, key: string) {
     if (iv) {
         const decipher = crypto.createDecipheriv(
             "aes-256-cbc",
@@ -37,131 +44,95 @@ export function decryptData(data: string, key: string) {
     return null;
 }
 
-export async function generateAccount(key: string) {
-    if (iv) {
-        let cipher = crypto.createCipheriv(
-            "aes-256-cbc",
-            Buffer.from(key, "hex"),
-            Buffer.from(iv, "hex")
-        );
-
-        const keyPair = (await crypto.subtle.generateKey("Ed25519", true, [
-            "sign",
-            "verify",
-        ])) as CryptoKeyPair;
-
-        const pubBuff = await crypto.subtle.exportKey("raw", keyPair.publicKey);
-        const pubKey = base58.encode(new Uint8Array(pubBuff));
-        const pubArray = new Uint8Array(pubBuff);
-        const pkBuff = await crypto.subtle.exportKey(
-            "pkcs8",
-            keyPair.privateKey
-        );
-        const pkArray = new Uint8Array(pkBuff).slice(16, 48);
-        const pkFull = new Uint8Array([...pkArray, ...pubArray]);
-
-        const privKey = base58.encode(pkFull);
-
-        const dataWithWallet = JSON.stringify({
-            pubKey,
-            privKey,
-        });
-
-        let encryptedData = cipher.update(dataWithWallet, "utf-8", "hex");
-
-        encryptedData += cipher.final("hex");
-
-        return encryptedData;
+export function decryptData(data: string, key: string) {
+    if (isLegacyCiphertext(data)) {
+        return decryptLegacyData(data, key);
     }
 
-    return "";
-}
-
+    const envelope = Buffer.from(data.slice(envelopePrefix.length), "base64");
+    const version = envelope[0];
 
-export async function generateCircleAccount({ key, appId, security }: { key: string; appId?: string, security: string; }) {
-    if (apiKey && secret) {
-        const circleDeveloperSdk = initiateDeveloperControlledWalletsClient({
-            apiKey,
-            entitySecret: secret,
-        });
-
-        const response = await circleDeveloperSdk.createWallets({
-            accountType: "EOA",
-            blockchains: ["SOL-DEVNET"],
-            count: 1,
-            walletSetId: appId || defaultAppId,
-            metadata: [
-                {
-                    refId: key,
-                    name: security
-                },
-            ],
-        });
-
-        const wallet = response.data?.wallets[0];
-
-        return wallet?.address;
+    if (version !== envelopeVersion) {
+        throw new Error(`Unsupported envelope version ${version}`);
     }
 
-    return "";
-}
+    const nonce = envelope.subarray(1, 1 + nonceLength);
+    const tag = envelope.subarray(1 + nonceLength, 1 + nonceLength + tagLength);
+    const ciphertext = envelope.subarray(1 + nonceLength + tagLength);
 
-export async function checkCircleAccount({ refId, appId }: { refId: string; appId?: string | null; }) {
-    if (apiKey && secret) {
-        const circleDeveloperSdk = initiateDeveloperControlledWalletsClient({
-            apiKey,
-            entitySecret: secret,
-        });
+    const decipher = crypto.createDecipheriv("aes-256-gcm", Buffer.from(key, "hex"), nonce);
 
+    decipher.setAAD(Buffer.from([version]));
+    decipher.setAuthTag(tag);
 
-        try {
-            const listWalletsResponse = await circleDeveloperSdk.listWallets({
-                walletSetId: appId || defaultAppId,
-                refId
-            });
+    const decryptedData = Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf-8");
 
-            const userWallet = listWalletsResponse.data?.wallets[0];
+    const credentials: Credentials = JSON.parse(decryptedData);
 
-            if (userWallet && userWallet.address != null) {
-                return true
-            }
+    return credentials;
+}
 
-        } catch (e) {
-            return false;
-        }
+export function encryptData(data: Credentials, key: string) {
+    const nonce = crypto.randomBytes(nonceLength);
+    const header = Buffer.from([envelopeVersion]);
 
-        return false;
-    }
+    const cipher = crypto.createCipheriv("aes-256-gcm", Buffer.from(key, "hex"), nonce);
 
-    return false;
-}
+    cipher.setAAD(header);
 
-export async function getCircleAccount({ refId, appId, security }: { refId: string; appId?: string | null; security: string; }) {
-    if (apiKey && secret) {
-        const circleDeveloperSdk = initiateDeveloperControlledWalletsClient({
-            apiKey,
-            entitySecret: secret,
-        });
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify(data), "utf-8"), cipher.final()]);
 
-        try {
+    return envelopePrefix + Buffer.concat([header, nonce, cipher.getAuthTag(), ciphertext]).toString("base64");
+}
 
-            const listWalletsResponse = await circleDeveloperSdk.listWallets({
-                walletSetId: appId || defaultAppId,
-                refId
-            });
+function toEd25519Jwk(publicKey: Uint8Array, secretKey?: Uint8Array) {
+    return {
+        kty: "OKP",
+        crv: "Ed25519",
+        x: Buffer.from(publicKey).toString("base64url"),
+        ...(secretKey ? { d: Buffer.from(secretKey.subarray(0, 32)).toString("base64url") } : {}),
+    };
+}
 
-            const userWallet = listWalletsResponse.data?.wallets[0];
+// Solana secret keys are the 32 byte seed followed by the 32 byte public key
+export function signDetached(message: Uint8Array, secretKey: Uint8Array) {
+    const privateKey = crypto.createPrivateKey({
+        key: toEd25519Jwk(secretKey.subarray(32), secretKey),
+        format: "jwk",
+    });
 
-            if (userWallet && userWallet.name === security) {
-                return userWallet
-            }
+    return crypto.sign(null, message, privateKey);
+}
 
-            return null;
+export function verifyDetached(message: Uint8Array, signature: Uint8Array, publicKey: Uint8Array) {
+    const key = crypto.createPublicKey({
+        key: toEd25519Jwk(publicKey),
+        format: "jwk",
+    });
 
-        } catch (e) {
-            return null;
-        }
-    }
+    return crypto.verify(null, message, key, signature);
+}
 
-    return null;
+export async function generateAccount(key: string) {
+    const keyPair = (await crypto.subtle.generateKey("Ed25519", true, [
+        "sign",
+        "verify",
+    ])) as CryptoKeyPair;
+
+    const pubBuff = await crypto.subtle.exportKey("raw", keyPair.publicKey);
+    const pubKey = base58.encode(new Uint8Array(pubBuff));
+    const pubArray = new Uint8Array(pubBuff);
+    const pkBuff = await crypto.subtle.exportKey(
+        "pkcs8",
+        keyPair.privateKey
+    );
+    const pkArray = new Uint8Array(pkBuff).slice(16, 48);
+    const pkFull = new Uint8Array([...pkArray, ...pubArray]);
+
+    const privKey = base58.encode(pkFull);
+
+    return {
+        address: pubKey,
+        credentials: encryptData({ pubKey, privKey }, key),
+    };
 }
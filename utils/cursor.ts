@@ -0,0 +1,35 @@
+import { BadRequestError } from "fuse";
+
+const maxPageSize = 100;
+
+// Position of the last item of a page, lists are ordered newest first
+export type Cursor = { createdAt: Date; id: string };
+
+export function getPageSize(first?: number | null) {
+    return Math.min(Math.max(first || 20, 1), maxPageSize);
+}
+
+export function encodeCursor({ createdAt, id }: Cursor) {
+    return Buffer.from(`${createdAt.getTime()}:${id}`).toString("base64url");
+}
+
+export function decodeCursor(cursor: string): Cursor {
+    const [time, id] = Buffer.from(cursor, "base64url").toString("utf-8").split(":");
+    const createdAt = new Date(Number(time));
+
+    if (!id || isNaN(createdAt.getTime())) {
+        throw new BadRequestError("Invalid cursor");
+    }
+
+    return { createdAt, id };
+}
+
+/** Cuts a page from items fetched with one extra, which tells whether another page follows. */
+export function toPage<T extends Cursor>(items: T[], limit: number) {
+    const page = items.slice(0, limit);
+
+    return {
+        items: page,
+        nextCursor: items.length > limit ? encodeCursor(page[page.length - 1]) : null,
+    };
+}
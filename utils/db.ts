@@ -1,13 +1,22 @@
-import { MongoClient } from "mongodb";
-
-
+import "dotenv/config";
+import { Db, MongoClient } from "mongodb";
 
 export type DBConfig = {
     mongoURI: string;
     dbName: string;
 };
 
-export async function connectDB(config: DBConfig) {
+export type DBConnection = {
+    client: MongoClient;
+    db: Db;
+};
+
+const poolSize = Number(process.env.DB_POOL_SIZE) || 10;
+
+let connection: Promise<DBConnection> | null = null;
+let shutdownRegistered = false;
+
+export async function connectDB(config: DBConfig): Promise<DBConnection> {
     if (!config.mongoURI) {
         throw new Error("Mongo URI is undefined");
     }
@@ -16,7 +25,7 @@ export async function connectDB(config: DBConfig) {
         throw new Error("Database name is undefined");
     }
 
-    const client = new MongoClient(config.mongoURI);
+    const client = new MongoClient(config.mongoURI, { maxPoolSize: poolSize });
     await client.connect();
     const db = client.db(config.dbName);
 
@@ -39,4 +48,55 @@ export function createDBConnection(config?: DBConfig) {
     }
 
     return connectDB({ mongoURI, dbName });
-}
\ No newline at end of file
+}
+
+function registerShutdown() {
+    if (shutdownRegistered) {
+        return;
+    }
+
+    shutdownRegistered = true;
+
+    for (const signal of ["SIGINT", "SIGTERM"] as const) {
+        process.once(signal, async () => {
+            try {
+                await closeDB();
+            } catch (e) {
+                console.log(e);
+            }
+
+            process.exit(0);
+        });
+    }
+}
+
+/**
+ * Shared connection for the whole process. The client is created on first use
+ * and keeps its own pool, so callers must not close it themselves.
+ */
+export function getDB() {
+    if (!connection) {
+        connection = createDBConnection({ mongoURI: process.env.DB_URI || "", dbName: process.env.DB_NAME || "" });
+
+        // A failed connect should not poison every later request
+        connection.catch(() => {
+            connection = null;
+        });
+
+        registerShutdown();
+    }
+
+    return connection;
+}
+
+export async function closeDB() {
+    if (!connection) {
+        return;
+    }
+
+    const pending = connection;
+    connection = null;
+
+    const { client } = await pending;
+    await client.close();
+}
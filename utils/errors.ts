@@ -0,0 +1,139 @@
+import { FuseError } from "fuse";
+
+/** For use when too many failed attempts locked the account or client out. */
+export class AccountLockedError extends FuseError {
+    name = "AccountLockedError";
+    readonly retryAfter: Date;
+
+    constructor(retryAfter: Date) {
+        const details = { retryAfter: retryAfter.toISOString() };
+
+        super("Too many failed attempts, try again later", {
+            code: "ACCOUNT_LOCKED",
+            ...details,
+        });
+
+        this.retryAfter = retryAfter;
+    }
+}
+
+/** For transactions that break a rule of the app's or the account's policy. */
+export class PolicyViolationError extends FuseError {
+    name = "PolicyViolationError";
+    readonly rule: string;
+
+    constructor(rule: string, scope: string, message: string) {
+        const details = { rule, scope };
+
+        super(message, {
+            code: "POLICY_VIOLATION",
+            ...details,
+        });
+
+        this.rule = rule;
+    }
+}
+
+/** For PINs that don't unlock the account's wallet. */
+export class InvalidPinError extends FuseError {
+    name = "InvalidPinError";
+
+    constructor() {
+        super("Invalid PIN", { code: "INVALID_PIN" });
+    }
+}
+
+/** For identifiers without an account, in the app when one is given. */
+export class AccountNotFoundError extends FuseError {
+    name = "AccountNotFoundError";
+
+    constructor() {
+        super("Account not found", { code: "ACCOUNT_NOT_FOUND" });
+    }
+}
+
+/** For WebAuthn responses whose challenge is unknown, expired or already used. */
+export class ChallengeExpiredError extends FuseError {
+    name = "ChallengeExpiredError";
+
+    constructor() {
+        super("Challenge expired or already used", { code: "CHALLENGE_EXPIRED" });
+    }
+}
+
+/** For credentials that are not registered to the account. */
+export class PasskeyNotFoundError extends FuseError {
+    name = "PasskeyNotFoundError";
+
+    constructor() {
+        super("Passkey not found", { code: "PASSKEY_NOT_FOUND" });
+    }
+}
+
+/** For passkey responses that don't verify against the stored credential. */
+export class PasskeyVerificationError extends FuseError {
+    name = "PasskeyVerificationError";
+
+    constructor() {
+        super("Passkey verification failed", { code: "PASSKEY_VERIFICATION_FAILED" });
+    }
+}
+
+/** For payloads that don't deserialize into a Solana transaction. */
+export class InvalidTransactionError extends FuseError {
+    name = "InvalidTransactionError";
+
+    constructor() {
+        super("Invalid transaction", { code: "INVALID_TRANSACTION" });
+    }
+}
+
+/** For wallet backends that are down or rate limiting us, worth retrying later. */
+export class ProviderUnavailableError extends FuseError {
+    name = "ProviderUnavailableError";
+
+    constructor() {
+        super("Wallet provider unavailable, try again later", { code: "PROVIDER_UNAVAILABLE" });
+    }
+}
+
+/** For signatures the wallet provider refused or failed to produce. */
+export class SigningFailedError extends FuseError {
+    name = "SigningFailedError";
+
+    constructor() {
+        super("Signing failed", { code: "SIGNING_FAILED" });
+    }
+}
+
+/** For refresh tokens that are unknown, expired, revoked or were already rotated away. */
+export class SessionExpiredError extends FuseError {
+    name = "SessionExpiredError";
+
+    constructor() {
+        super("Session expired, sign in again", { code: "SESSION_EXPIRED" });
+    }
+}
+
+/** For logins while SESSION_SECRET is unset, so no session could be issued. */
+export class SessionsDisabledError extends FuseError {
+    name = "SessionsDisabledError";
+
+    constructor() {
+        super("Sessions are not configured on this server", { code: "SESSIONS_DISABLED" });
+    }
+}
+
+/** For PIN changes that could not be applied to every wallet, which are all left on the old PIN. */
+export class PinChangeFailedError extends FuseError {
+    name = "PinChangeFailedError";
+
+    constructor() {
+        super("PIN could not be changed", { code: "PIN_CHANGE_FAILED" });
+    }
+}
+
+/** Stable code of an error, `fallback` for errors that don't carry one. */
+export function getErrorCode(e: unknown, fallback: string) {
+    return e instanceof FuseError && typeof e.extensions?.code === "string" ? e.extensions.code : fallback;
+}
@@ -0,0 +1,88 @@
+import crypto from "crypto";
+import "dotenv/config";
+import { getKdfRepository } from "@/repositories";
+import { generateKey } from "@/utils/crypto";
+
+const defaultCost = Number(process.env.KDF_COST || 2 ** 15);
+const defaultBlockSize = Number(process.env.KDF_BLOCK_SIZE || 8);
+const defaultParallelization = Number(process.env.KDF_PARALLELIZATION || 1);
+
+export type KdfParams = {
+    algorithm: "scrypt";
+    salt: string;
+    cost: number;
+    blockSize: number;
+    parallelization: number;
+};
+
+/**
+ * `cipherKey` encrypts the locally stored credentials and `security` is the
+ * verifier stored as the Circle wallet name. Accounts without KDF params still
+ * use the legacy SHA-256 value for both.
+ */
+export type DerivedKeys = {
+    cipherKey: string;
+    security: string;
+    params: KdfParams | null;
+};
+
+export function createKdfParams(): KdfParams {
+    return {
+        algorithm: "scrypt",
+        salt: crypto.randomBytes(16).toString("hex"),
+        cost: defaultCost,
+        blockSize: defaultBlockSize,
+        parallelization: defaultParallelization,
+    };
+}
+
+export async function getKdfParams(refId: string): Promise<KdfParams | null> {
+    return getKdfRepository().find(refId);
+}
+
+/**
+ * Parameters for a new account. Registrations racing each other end up with
+ * the same ones, whichever was stored first.
+ */
+export async function initKdfParams(refId: string) {
+    return getKdfRepository().create(refId, createKdfParams());
+}
+
+export async function saveKdfParams(refId: string, params: KdfParams) {
+    await getKdfRepository().save(refId, params);
+}
+
+export function deriveKey(secret: string, params: KdfParams) {
+    return new Promise<Buffer>((resolve, reject) => {
+        crypto.scrypt(secret, Buffer.from(params.salt, "hex"), 64, {
+            N: params.cost,
+            r: params.blockSize,
+            p: params.parallelization,
+            maxmem: 256 * params.cost * params.blockSize,
+        }, (err, key) => err ? reject(err) : resolve(key));
+    });
+}
+
+export async function deriveKeys({ id, pin, params }: { id: string; pin: string; params: KdfParams | null; }): Promise<DerivedKeys> {
+    const secret = [id, pin].join("$");
+
+    if (!params) {
+        const legacyKey = generateKey(secret);
+
+        return { cipherKey: legacyKey, security: legacyKey, params };
+    }
+
+    const key = await deriveKey(secret, params);
+
+    return {
+        cipherKey: key.subarray(0, 32).toString("hex"),
+        security: key.subarray(32).toString("hex"),
+        params,
+    };
+}
+
+export async function deriveAccountKeys({ id, pin }: { id: string; pin: string; }) {
+    const params = await getKdfParams(generateKey(id));
+
+    return deriveKeys({ id, pin, params });
+}
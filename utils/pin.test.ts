@@ -0,0 +1,93 @@
+import crypto from "crypto";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { memoryProvider } from "@/providers/memory.provider";
+import { authorizePin } from "@/utils/authorize";
+import { generateKey } from "@/utils/crypto";
+import { AccountNotFoundError } from "@/utils/errors";
+import { deriveKeys, getKdfParams } from "@/utils/kdf";
+import { rotatePin } from "@/utils/pin";
+import { registerAccount } from "@/utils/registration";
+
+async function register(id: string, pin: string, appId?: string) {
+    const { success, error } = await registerAccount({ id, pin, appId, chains: ["SOL-DEVNET"] });
+
+    expect({ success, error }).toEqual({ success: true, error: undefined });
+}
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe("rotatePin", () => {
+    it("moves the wallets of every app the account joined", async () => {
+        const id = crypto.randomUUID();
+        await register(id, "1234", "app-a");
+        await register(id, "1234", "app-b");
+
+        await rotatePin({ id, appIds: ["app-a"], currentPin: "1234", nextPin: "0123" });
+
+        expect(await authorizePin({ id, pin: "0123" })).not.toBeNull();
+        expect(await authorizePin({ id, pin: "0123", appId: "app-a" })).not.toBeNull();
+        expect(await authorizePin({ id, pin: "0123", appId: "app-b" })).not.toBeNull();
+        expect(await authorizePin({ id, pin: "1234", appId: "app-b" })).toBeNull();
+    });
+
+    it("puts every wallet back when one of them can't be moved", async () => {
+        const id = crypto.randomUUID();
+        await register(id, "1234", "app-a");
+        await register(id, "1234", "app-b");
+
+        const rekey = memoryProvider.rekey;
+        vi.spyOn(memoryProvider, "rekey").mockImplementation(async input => {
+            if (input.appId === "app-b") {
+                throw new Error("Provider unavailable");
+            }
+
+            return rekey(input);
+        });
+
+        const params = await getKdfParams(generateKey(id));
+        await expect(rotatePin({ id, appIds: ["app-a"], currentPin: "1234", nextPin: "5678" })).rejects.toThrow("Provider unavailable");
+
+        vi.restoreAllMocks();
+
+        expect(await getKdfParams(generateKey(id))).toEqual(params);
+
+        expect(await authorizePin({ id, pin: "1234" })).not.toBeNull();
+        expect(await authorizePin({ id, pin: "1234", appId: "app-a" })).not.toBeNull();
+        expect(await authorizePin({ id, pin: "1234", appId: "app-b" })).not.toBeNull();
+    });
+
+    it("refuses the wrong current PIN", async () => {
+        const id = crypto.randomUUID();
+        await register(id, "1234");
+
+        await expect(rotatePin({ id, appIds: [null], currentPin: "0000", nextPin: "5678" })).rejects.toThrow();
+        expect(await authorizePin({ id, pin: "1234" })).not.toBeNull();
+    });
+
+    it("resets without the current PIN", async () => {
+        const id = crypto.randomUUID();
+        await register(id, "1234", "app-a");
+
+        await rotatePin({ id, appIds: ["app-a"], nextPin: "5678" });
+
+        expect(await authorizePin({ id, pin: "5678", appId: "app-a" })).not.toBeNull();
+    });
+
+    it("refuses identifiers without wallets", async () => {
+        await expect(rotatePin({ id: crypto.randomUUID(), appIds: [null], nextPin: "5678" })).rejects.toThrow(AccountNotFoundError);
+    });
+
+    it("moves wallets that still carry the legacy keys", async () => {
+        const id = crypto.randomUUID();
+        await register(id, "1234");
+        await memoryProvider.create({ refId: generateKey(id), appId: "legacy-app", keys: await deriveKeys({ id, pin: "1234", params: null }), chains: ["SOL-DEVNET"] });
+
+        await rotatePin({ id, appIds: ["legacy-app"], currentPin: "1234", nextPin: "5678" });
+
+        expect(await authorizePin({ id, pin: "5678" })).not.toBeNull();
+        expect(await authorizePin({ id, pin: "5678", appId: "legacy-app" })).not.toBeNull();
+    });
+});
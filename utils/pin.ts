@@ -0,0 +1,76 @@
+import "dotenv/config";
+
+import { generateKey } from "@/utils/crypto";
+import { DerivedKeys, createKdfParams, deriveKeys, getKdfParams, saveKdfParams } from "@/utils/kdf";
+import { AccountNotFoundError } from "@/utils/errors";
+import { getAccount } from "@/utils/accounts";
+import { getWalletProvider } from "@/providers";
+
+export type PinRotation = {
+    id: string;
+    // Apps the call came through, on top of every app the account joined
+    appIds: (string | null | undefined)[];
+    nextPin: string;
+    // Omitted on reset, in which case the caller already re-authenticated
+    currentPin?: string;
+};
+
+/**
+ * Moves every wallet of an account from one PIN to the next, deriving the new
+ * keys with fresh KDF params. The params are shared by all of the account's
+ * wallets, so the wallets of every app it joined are moved along. Either all
+ * of them end up on the new PIN or everything that was already changed is put
+ * back before the error is thrown.
+ *
+ * Rotating to the same PIN is how legacy SHA-256 accounts get upgraded.
+ */
+export async function rotatePin({ id, appIds, currentPin, nextPin }: PinRotation) {
+    const refId = generateKey(id);
+    const account = await getAccount(refId);
+    const memberships = account?.apps.map(({ appId }) => appId) || [];
+    const walletAppIds = [...new Set([null, ...appIds.map(appId => appId || null), ...memberships])];
+
+    const existing = await Promise.all(walletAppIds.map(appId => getWalletProvider(appId).lookup({ refId, appId })));
+
+    if (!existing.some(Boolean)) {
+        throw new AccountNotFoundError();
+    }
+
+    const currentParams = await getKdfParams(refId);
+    const nextParams = createKdfParams();
+
+    let current: DerivedKeys[] | undefined;
+
+    if (currentPin !== undefined) {
+        // Wallets that were not used since the KDF upgrade still carry the legacy value
+        current = [await deriveKeys({ id, pin: currentPin, params: currentParams })];
+
+        if (currentParams) {
+            current.push(await deriveKeys({ id, pin: currentPin, params: null }));
+        }
+    }
+
+    const next = await deriveKeys({ id, pin: nextPin, params: nextParams });
+
+    const undos: (() => Promise<void>)[] = [];
+
+    try {
+        for (const appId of walletAppIds) {
+            undos.push(await getWalletProvider(appId).rekey({ refId, appId, current, next }));
+        }
+
+        await saveKdfParams(refId, nextParams);
+    } catch (e) {
+        for (const undo of undos.reverse()) {
+            try {
+                await undo();
+            } catch (e) {
+                console.log(e);
+            }
+        }
+
+        throw e;
+    }
+
+    return true;
+}
@@ -0,0 +1,104 @@
+import crypto from "crypto";
+import { Keypair, PublicKey, SystemProgram, Transaction, TransactionInstruction } from "@solana/web3.js";
+import { describe, expect, it } from "vitest";
+
+import { PolicyViolationError } from "@/utils/errors";
+import { enforcePolicies, setPolicy } from "@/utils/policy";
+import { serializeTransaction } from "@/utils/transaction";
+
+const signer = Keypair.generate().publicKey;
+const destination = Keypair.generate().publicKey;
+const memoProgramId = new PublicKey("MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr");
+
+function transfer(lamports: number | bigint, to = destination) {
+    const transaction = new Transaction({ feePayer: signer, recentBlockhash: "11111111111111111111111111111111" })
+        .add(SystemProgram.transfer({ fromPubkey: signer, toPubkey: to, lamports }));
+
+    return serializeTransaction(transaction);
+}
+
+function withMemo(lamports: number) {
+    const transaction = new Transaction({ feePayer: signer, recentBlockhash: "11111111111111111111111111111111" })
+        .add(SystemProgram.transfer({ fromPubkey: signer, toPubkey: destination, lamports }))
+        .add(new TransactionInstruction({ programId: memoProgramId, keys: [], data: Buffer.from("hi") }));
+
+    return serializeTransaction(transaction);
+}
+
+// Every test gets its own account, spend counters are kept per account and day
+function newAccount() {
+    return crypto.randomUUID();
+}
+
+async function enforce(accountId: string, tx: string, appId?: string) {
+    return enforcePolicies({ accountId, appId, signer: signer.toBase58(), tx });
+}
+
+async function violatedRule(promise: Promise<unknown>) {
+    try {
+        await promise;
+    } catch (e) {
+        expect(e).toBeInstanceOf(PolicyViolationError);
+        return (e as PolicyViolationError).rule;
+    }
+
+    return null;
+}
+
+describe("enforcePolicies", () => {
+    it("lets everything through without a policy", async () => {
+        await expect(enforce(newAccount(), transfer(10 ** 12))).resolves.toBeTypeOf("function");
+    });
+
+    it("refuses transfers above maxLamports", async () => {
+        const accountId = newAccount();
+        await setPolicy("account", accountId, { maxLamports: "1000" });
+
+        await enforce(accountId, transfer(1000));
+        expect(await violatedRule(enforce(accountId, transfer(1001)))).toBe("maxLamports");
+    });
+
+    it("refuses programs and destinations that are not allowed", async () => {
+        const accountId = newAccount();
+        await setPolicy("account", accountId, {
+            allowedPrograms: [SystemProgram.programId.toBase58()],
+            allowedDestinations: [destination.toBase58()],
+        });
+
+        await enforce(accountId, transfer(1));
+        expect(await violatedRule(enforce(accountId, withMemo(1)))).toBe("allowedPrograms");
+        expect(await violatedRule(enforce(accountId, transfer(1, Keypair.generate().publicKey)))).toBe("allowedDestinations");
+    });
+
+    it("applies the app policy only to transactions signed through the app", async () => {
+        const accountId = newAccount();
+        const appId = crypto.randomUUID();
+        await setPolicy("app", appId, { maxLamports: "10" });
+
+        expect(await violatedRule(enforce(accountId, transfer(11), appId))).toBe("maxLamports");
+        await enforce(accountId, transfer(11));
+    });
+
+    it("books lamports against the daily limit and gives them back on release", async () => {
+        const accountId = newAccount();
+        await setPolicy("account", accountId, { dailyLamports: "100" });
+
+        await enforce(accountId, transfer(60));
+        const release = await enforce(accountId, transfer(40));
+
+        expect(await violatedRule(enforce(accountId, transfer(1)))).toBe("dailyLamports");
+
+        await release();
+        await enforce(accountId, transfer(40));
+    });
+
+    it("keeps daily amounts exact past 2^53", async () => {
+        const accountId = newAccount();
+        const limit = 2n ** 53n + 1n;
+        await setPolicy("account", accountId, { dailyLamports: limit.toString() });
+
+        await enforce(accountId, transfer(limit - 1n));
+        await enforce(accountId, transfer(1n));
+        expect(await violatedRule(enforce(accountId, transfer(1n)))).toBe("dailyLamports");
+    });
+});
@@ -0,0 +1,164 @@
+import { BadRequestError } from "fuse";
+import { PublicKey } from "@solana/web3.js";
+
+import { PolicyModel, PolicyScope, getPolicyRepository } from "@/repositories";
+import { PolicyViolationError } from "@/utils/errors";
+import { deserializeTransaction, getProgramIds, getTransfers } from "@/utils/transaction";
+
+export type PolicyRule = "allowedPrograms" | "maxLamports" | "maxTokenAmount" | "allowedDestinations" | "dailyLamports";
+
+export type PolicySettings = Pick<PolicyModel, PolicyRule>;
+
+type PolicySettingsInput = { [K in keyof PolicySettings]?: PolicySettings[K] | null };
+
+const maxU64 = 2n ** 64n - 1n;
+
+function parseAmount(name: string, value: string) {
+    if (!/^\d+$/.test(value) || BigInt(value) > maxU64) {
+        throw new BadRequestError(`${name} must be a whole amount in base units`);
+    }
+
+    return BigInt(value).toString();
+}
+
+function parseAddresses(name: string, values: string[]) {
+    for (const value of values) {
+        try {
+            new PublicKey(value);
+        } catch (e) {
+            throw new BadRequestError(`${name} contains an invalid address: ${value}`);
+        }
+    }
+
+    return [...new Set(values)];
+}
+
+export async function getPolicy(scope: PolicyScope, ownerId: string) {
+    return getPolicyRepository().find(scope, ownerId);
+}
+
+/**
+ * Replaces the policy of an app or account, rules left out are lifted. A
+ * policy without any rule is removed.
+ */
+export async function setPolicy(scope: PolicyScope, ownerId: string, settings: PolicySettingsInput) {
+    const policy: PolicyModel = { scope, ownerId, updatedAt: new Date() };
+
+    if (settings.allowedPrograms) {
+        policy.allowedPrograms = parseAddresses("allowedPrograms", settings.allowedPrograms);
+    }
+
+    if (settings.allowedDestinations) {
+        policy.allowedDestinations = parseAddresses("allowedDestinations", settings.allowedDestinations);
+    }
+
+    for (const rule of ["maxLamports", "maxTokenAmount", "dailyLamports"] as const) {
+        const value = settings[rule];
+
+        if (value !== null && value !== undefined) {
+            policy[rule] = parseAmount(rule, value);
+        }
+    }
+
+    const repository = getPolicyRepository();
+
+    if (!policy.allowedPrograms && !policy.allowedDestinations && !policy.maxLamports && !policy.maxTokenAmount && !policy.dailyLamports) {
+        await repository.remove(scope, ownerId);
+        return null;
+    }
+
+    await repository.save(policy);
+
+    return policy;
+}
+
+type Inspection = {
+    programIds: string[];
+    // Movements of funds the signer authorizes
+    transfers: ReturnType<typeof getTransfers>;
+    lamports: bigint;
+};
+
+function checkPolicy(policy: PolicyModel, { programIds, transfers, lamports }: Inspection) {
+    const violation = (rule: PolicyRule, message: string) => new PolicyViolationError(rule, policy.scope, message);
+
+    if (policy.allowedPrograms) {
+        const program = programIds.find(id => !policy.allowedPrograms!.includes(id));
+
+        if (program) {
+            throw violation("allowedPrograms", `Program ${program} is not allowed`);
+        }
+    }
+
+    if (policy.allowedDestinations) {
+        const transfer = transfers.find(({ destination }) => !destination || !policy.allowedDestinations!.includes(destination));
+
+        if (transfer) {
+            throw violation("allowedDestinations", transfer.destination
+                ? `Destination ${transfer.destination} is not allowed`
+                : "Destination is loaded from a lookup table and can't be checked");
+        }
+    }
+
+    if (policy.maxLamports && lamports > BigInt(policy.maxLamports)) {
+        throw violation("maxLamports", `Transfers ${lamports} lamports, the limit is ${policy.maxLamports}`);
+    }
+
+    if (policy.maxTokenAmount) {
+        const transfer = transfers.find(({ asset, amount }) => asset === "token" && amount > BigInt(policy.maxTokenAmount!));
+
+        if (transfer) {
+            throw violation("maxTokenAmount", `Transfers ${transfer.amount} token units, the limit is ${policy.maxTokenAmount}`);
+        }
+    }
+}
+
+/**
+ * Checks a transaction against the policies of the app and the account
+ * before the signer's key touches it, and books the lamports it moves
+ * against their daily limits. The returned function gives the booked
+ * amount back when the transaction ends up not being signed.
+ */
+export async function enforcePolicies({ accountId, appId, signer, tx }: { accountId: string; appId?: string | null; signer: string; tx: string }) {
+    const repository = getPolicyRepository();
+    const policies = (await Promise.all([
+        appId ? repository.find("app", appId) : null,
+        repository.find("account", accountId),
+    ])).filter((policy): policy is PolicyModel => policy !== null);
+
+    if (!policies.length) {
+        return async () => {};
+    }
+
+    const transaction = deserializeTransaction(tx);
+    const transfers = getTransfers(transaction).filter(({ authority }) => authority === signer);
+    const lamports = transfers.reduce((sum, { asset, amount }) => asset === "sol" ? sum + amount : sum, 0n);
+
+    for (const policy of policies) {
+        checkPolicy(policy, { programIds: getProgramIds(transaction), transfers, lamports });
+    }
+
+    const day = new Date().toISOString().slice(0, 10);
+    const reserved: string[] = [];
+    const release = async () => {
+        await Promise.all(reserved.map(key => repository.releaseSpend(key, day, lamports)));
+    };
+
+    for (const policy of policies) {
+        if (!policy.dailyLamports || !lamports) {
+            continue;
+        }
+
+        // App limits count what the account spends through that app only
+        const key = policy.scope === "app" ? `app:${policy.ownerId}:${accountId}` : `account:${accountId}`;
+
+        if (!await repository.reserveSpend(key, day, lamports, BigInt(policy.dailyLamports))) {
+            await release();
+            throw new PolicyViolationError("dailyLamports", policy.scope, `Daily limit of ${policy.dailyLamports} lamports reached`);
+        }
+
+        reserved.push(key);
+    }
+
+    return release;
+}
@@ -0,0 +1,75 @@
+import { Keypair, PublicKey, SystemProgram, Transaction, TransactionInstruction, TransactionMessage, VersionedTransaction } from "@solana/web3.js";
+import { describe, expect, it } from "vitest";
+
+import { InvalidTransactionError } from "@/utils/errors";
+import { previewTransaction } from "@/utils/preview";
+import { serializeTransaction } from "@/utils/transaction";
+
+const payer = Keypair.generate();
+const destination = Keypair.generate().publicKey;
+const blockhash = "11111111111111111111111111111111";
+
+describe("previewTransaction", () => {
+    it("describes a legacy SOL transfer", () => {
+        const transaction = new Transaction({ feePayer: payer.publicKey, recentBlockhash: blockhash })
+            .add(SystemProgram.transfer({ fromPubkey: payer.publicKey, toPubkey: destination, lamports: 1_500_000_000 }));
+
+        const preview = previewTransaction(serializeTransaction(transaction));
+
+        expect(preview).toMatchObject({
+            version: "legacy",
+            feePayer: payer.publicKey.toBase58(),
+            recentBlockhash: blockhash,
+            signers: [{ address: payer.publicKey.toBase58(), signed: false }],
+        });
+        expect(preview.instructions).toEqual([{
+            programId: SystemProgram.programId.toBase58(),
+            program: "System",
+            type: "transfer",
+            description: `Transfer 1.5 SOL from ${payer.publicKey.toBase58()} to ${destination.toBase58()}`,
+            accounts: [payer.publicKey.toBase58(), destination.toBase58()],
+        }]);
+    });
+
+    it("reports signatures that are already present", () => {
+        const transaction = new Transaction({ feePayer: payer.publicKey, recentBlockhash: blockhash })
+            .add(SystemProgram.transfer({ fromPubkey: payer.publicKey, toPubkey: destination, lamports: 1 }));
+        transaction.sign(payer);
+
+        expect(previewTransaction(serializeTransaction(transaction)).signers).toEqual([{ address: payer.publicKey.toBase58(), signed: true }]);
+    });
+
+    it("describes v0 transactions and memos", () => {
+        const message = new TransactionMessage({
+            payerKey: payer.publicKey,
+            recentBlockhash: blockhash,
+            instructions: [new TransactionInstruction({
+                programId: new PublicKey("MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr"),
+                keys: [],
+                data: Buffer.from("order 42"),
+            })],
+        }).compileToV0Message();
+
+        const preview = previewTransaction(serializeTransaction(new VersionedTransaction(message)));
+
+        expect(preview.version).toBe("0");
+        expect(preview.instructions[0]).toMatchObject({ program: "Memo", type: "memo", description: "Memo: order 42" });
+    });
+
+    it("shows unknown programs and truncated data as unknown", () => {
+        const programId = Keypair.generate().publicKey;
+        const transaction = new Transaction({ feePayer: payer.publicKey, recentBlockhash: blockhash }).add(
+            new TransactionInstruction({ programId, keys: [], data: Buffer.from([1, 2, 3]) }),
+            new TransactionInstruction({ programId: SystemProgram.programId, keys: [], data: Buffer.from([2, 0, 0, 0]) }),
+        );
+
+        const [unknown, truncated] = previewTransaction(serializeTransaction(transaction)).instructions;
+
+        expect(unknown).toMatchObject({ program: null, type: "unknown", description: `Call program ${programId.toBase58()}` });
+        expect(truncated).toMatchObject({ program: "System", type: "unknown" });
+    });
+
+    it("rejects payloads that are not transactions", () => {
+        expect(() => previewTransaction("not a transaction")).toThrow(InvalidTransactionError);
+    });
+});
@@ -0,0 +1,207 @@
+import { PublicKey, SystemProgram, VersionedTransaction } from "@solana/web3.js";
+
+import { AnyTransaction, InstructionData, getInstructions, getSigners, parseTransaction, tokenProgramIds } from "@/utils/transaction";
+
+export type InstructionPreview = {
+    programId: string;
+    // Name of the program when it is one we decode
+    program: string | null;
+    type: string;
+    description: string;
+    accounts: (string | null)[];
+};
+
+export type TransactionPreview = {
+    version: string;
+    feePayer: string | null;
+    recentBlockhash: string;
+    signers: { address: string; signed: boolean }[];
+    instructions: InstructionPreview[];
+};
+
+type Decoded = Pick<InstructionPreview, "type" | "description">;
+
+const associatedTokenProgramId = "ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL";
+const computeBudgetProgramId = "ComputeBudget111111111111111111111111111111";
+const memoProgramIds = ["MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr", "Memo1UhkJRfHyvLMcVucJwxXeuD728EqVDDwQDxFMNo"];
+
+function formatUnits(amount: bigint, decimals: number) {
+    const base = 10n ** BigInt(decimals);
+    const fraction = (amount % base).toString().padStart(decimals, "0").replace(/0+$/, "");
+
+    return fraction ? `${amount / base}.${fraction}` : `${amount / base}`;
+}
+
+function formatSol(lamports: bigint) {
+    return `${formatUnits(lamports, 9)} SOL`;
+}
+
+function formatAccount(address: string | null) {
+    return address || "an account from a lookup table";
+}
+
+function readKey(data: Buffer, offset: number) {
+    return new PublicKey(data.subarray(offset, offset + 32)).toBase58();
+}
+
+function decodeSystem({ accounts: [first, second, third, , fifth], data }: InstructionData): Decoded | null {
+    switch (data.readUInt32LE(0)) {
+        case 0:
+            return {
+                type: "createAccount",
+                description: `Create account ${formatAccount(second)} owned by ${readKey(data, 20)} with ${data.readBigUInt64LE(12)} bytes, funded with ${formatSol(data.readBigUInt64LE(4))} from ${formatAccount(first)}`,
+            };
+        case 1:
+            return { type: "assign", description: `Assign ${formatAccount(first)} to program ${readKey(data, 4)}` };
+        case 2:
+            return { type: "transfer", description: `Transfer ${formatSol(data.readBigUInt64LE(4))} from ${formatAccount(first)} to ${formatAccount(second)}` };
+        case 3: {
+            const offset = 36 + 8 + Number(data.readBigUInt64LE(36));
+
+            return {
+                type: "createAccountWithSeed",
+                description: `Create account ${formatAccount(second)} owned by ${readKey(data, offset + 16)} with ${data.readBigUInt64LE(offset + 8)} bytes, funded with ${formatSol(data.readBigUInt64LE(offset))} from ${formatAccount(first)}`,
+            };
+        }
+        case 4:
+            return { type: "advanceNonceAccount", description: `Advance nonce account ${formatAccount(first)}` };
+        case 5:
+            return { type: "withdrawNonceAccount", description: `Withdraw ${formatSol(data.readBigUInt64LE(4))} from nonce account ${formatAccount(first)} to ${formatAccount(second)} authorized by ${formatAccount(fifth)}` };
+        case 8:
+            return { type: "allocate", description: `Allocate ${data.readBigUInt64LE(4)} bytes for ${formatAccount(first)}` };
+        case 11:
+            return { type: "transferWithSeed", description: `Transfer ${formatSol(data.readBigUInt64LE(4))} from ${formatAccount(first)} to ${formatAccount(third)}` };
+        default:
+            return null;
+    }
+}
+
+function decodeToken({ accounts: [first, second, third], data }: InstructionData): Decoded | null {
+    // Checked instructions carry the mint decimals right after the amount
+    const amount = () => data.readBigUInt64LE(1);
+    const checkedAmount = () => `${formatUnits(amount(), data[9])} of mint ${formatAccount(second)}`;
+
+    switch (data[0]) {
+        case 0:
+        case 20:
+            return { type: "initializeMint", description: `Initialize mint ${formatAccount(first)} with ${data[1]} decimals and mint authority ${readKey(data, 2)}` };
+        case 1:
+            return { type: "initializeAccount", description: `Initialize token account ${formatAccount(first)} for mint ${formatAccount(second)} owned by ${formatAccount(third)}` };
+        case 3:
+            return { type: "transfer", description: `Transfer ${amount()} token units from ${formatAccount(first)} to ${formatAccount(second)}` };
+        case 4:
+            return { type: "approve", description: `Allow ${formatAccount(second)} to spend ${amount()} token units from ${formatAccount(first)}` };
+        case 5:
+            return { type: "revoke", description: `Revoke the delegate of ${formatAccount(first)}` };
+        case 6:
+            return { type: "setAuthority", description: `Change an authority of ${formatAccount(first)}` };
+        case 7:
+            return { type: "mintTo", description: `Mint ${amount()} token units of mint ${formatAccount(first)} to ${formatAccount(second)}` };
+        case 8:
+            return { type: "burn", description: `Burn ${amount()} token units from ${formatAccount(first)}` };
+        case 9:
+            return { type: "closeAccount", description: `Close token account ${formatAccount(first)} and send its rent to ${formatAccount(second)}` };
+        case 10:
+            return { type: "freezeAccount", description: `Freeze token account ${formatAccount(first)}` };
+        case 11:
+            return { type: "thawAccount", description: `Thaw token account ${formatAccount(first)}` };
+        case 12:
+            return { type: "transferChecked", description: `Transfer ${checkedAmount()} from ${formatAccount(first)} to ${formatAccount(third)}` };
+        case 13:
+            return { type: "approveChecked", description: `Allow ${formatAccount(third)} to spend ${checkedAmount()} from ${formatAccount(first)}` };
+        case 14:
+            return { type: "mintToChecked", description: `Mint ${formatUnits(amount(), data[9])} of mint ${formatAccount(first)} to ${formatAccount(second)}` };
+        case 15:
+            return { type: "burnChecked", description: `Burn ${checkedAmount()} from ${formatAccount(first)}` };
+        case 16:
+        case 18:
+            return { type: "initializeAccount", description: `Initialize token account ${formatAccount(first)} for mint ${formatAccount(second)} owned by ${readKey(data, 1)}` };
+        case 17:
+            return { type: "syncNative", description: `Sync the wrapped SOL balance of ${formatAccount(first)}` };
+        default:
+            return null;
+    }
+}
+
+function decodeAssociatedToken({ accounts: [payer, account, owner, mint], data }: InstructionData): Decoded | null {
+    const description = `associated token account ${formatAccount(account)} for mint ${formatAccount(mint)} owned by ${formatAccount(owner)}, paid by ${formatAccount(payer)}`;
+
+    switch (data.length ? data[0] : 0) {
+        case 0:
+            return { type: "create", description: `Create ${description}` };
+        case 1:
+            return { type: "createIdempotent", description: `Create ${description} if it does not exist` };
+        case 2:
+            return { type: "recoverNested", description: `Recover tokens from nested associated token account ${formatAccount(payer)}` };
+        default:
+            return null;
+    }
+}
+
+function decodeComputeBudget({ data }: InstructionData): Decoded | null {
+    switch (data[0]) {
+        case 1:
+            return { type: "requestHeapFrame", description: `Request a heap of ${data.readUInt32LE(1)} bytes` };
+        case 2:
+            return { type: "setComputeUnitLimit", description: `Set the compute unit limit to ${data.readUInt32LE(1)}` };
+        case 3:
+            return { type: "setComputeUnitPrice", description: `Set the compute unit price to ${data.readBigUInt64LE(1)} micro-lamports` };
+        case 4:
+            return { type: "setLoadedAccountsDataSizeLimit", description: `Limit loaded account data to ${data.readUInt32LE(1)} bytes` };
+        default:
+            return null;
+    }
+}
+
+const decoders: Record<string, { program: string; decode: (ix: InstructionData) => Decoded | null }> = {
+    [SystemProgram.programId.toBase58()]: { program: "System", decode: decodeSystem },
+    [tokenProgramIds[0]]: { program: "SPL Token", decode: decodeToken },
+    [tokenProgramIds[1]]: { program: "SPL Token 2022", decode: decodeToken },
+    [associatedTokenProgramId]: { program: "Associated Token Account", decode: decodeAssociatedToken },
+    [computeBudgetProgramId]: { program: "Compute Budget", decode: decodeComputeBudget },
+    ...Object.fromEntries(memoProgramIds.map(id => [id, {
+        program: "Memo",
+        decode: ({ data }: InstructionData) => ({ type: "memo", description: `Memo: ${data.toString("utf-8")}` }),
+    }])),
+};
+
+function previewInstruction(ix: InstructionData): InstructionPreview {
+    const decoder = decoders[ix.programId];
+    let decoded: Decoded | null = null;
+
+    try {
+        decoded = decoder ? decoder.decode(ix) : null;
+    } catch (e) {
+        // Truncated data reads out of bounds, it is shown as unknown
+    }
+
+    return {
+        programId: ix.programId,
+        program: decoder?.program || null,
+        type: decoded?.type || "unknown",
+        description: decoded?.description || `Call program ${ix.programId}`,
+        accounts: ix.accounts,
+    };
+}
+
+function getRecentBlockhash(transaction: AnyTransaction) {
+    return transaction instanceof VersionedTransaction ? transaction.message.recentBlockhash : transaction.recentBlockhash || "";
+}
+
+/**
+ * Decodes a base64 transaction, as accepted by `sign`, into readable
+ * instructions for the user to review before approving it.
+ */
+export function previewTransaction(tx: string): TransactionPreview {
+    const transaction = parseTransaction(tx);
+
+    const signers = getSigners(transaction);
+
+    return {
+        version: transaction instanceof VersionedTransaction ? String(transaction.version) : "legacy",
+        feePayer: signers[0]?.address || null,
+        recentBlockhash: getRecentBlockhash(transaction),
+        signers,
+        instructions: getInstructions(transaction).map(previewInstruction),
+    };
+}
@@ -0,0 +1,58 @@
+import crypto from "crypto";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { memoryProvider } from "@/providers/memory.provider";
+import { getRegistration, registerAccount } from "@/utils/registration";
+
+const chains = ["SOL-DEVNET" as const];
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe("registerAccount", () => {
+    it("resumes a failed run from the step that failed", async () => {
+        const id = crypto.randomUUID();
+        const idempotencyKey = crypto.randomUUID();
+
+        const create = memoryProvider.create;
+        const spy = vi.spyOn(memoryProvider, "create").mockImplementationOnce(create).mockRejectedValueOnce(new Error("Provider unavailable"));
+
+        const failed = await registerAccount({ id, pin: "1234", appId: "app", chains, idempotencyKey });
+        expect(failed.success).toBe(false);
+        expect(await getRegistration("app", idempotencyKey)).toMatchObject({ state: "error" });
+
+        expect(await registerAccount({ id, pin: "1234", appId: "app", chains, idempotencyKey })).toEqual({ success: true });
+        expect(await getRegistration("app", idempotencyKey)).toMatchObject({ state: "registered" });
+
+        // The default wallet was created by the first run only, the retry created the app wallet
+        expect(spy.mock.calls.map(([input]) => input.appId || null)).toEqual([null, "app", "app"]);
+    });
+
+    it("only reports the outcome of a finished run", async () => {
+        const id = crypto.randomUUID();
+        const idempotencyKey = crypto.randomUUID();
+
+        expect(await registerAccount({ id, pin: "1234", chains, idempotencyKey })).toEqual({ success: true });
+
+        const spy = vi.spyOn(memoryProvider, "create");
+        expect(await registerAccount({ id, pin: "1234", chains, idempotencyKey })).toEqual({ success: true });
+        expect(spy).not.toHaveBeenCalled();
+    });
+
+    it("refuses an idempotency key that was used for another registration", async () => {
+        const idempotencyKey = crypto.randomUUID();
+
+        await registerAccount({ id: crypto.randomUUID(), pin: "1234", chains, idempotencyKey });
+
+        await expect(registerAccount({ id: crypto.randomUUID(), pin: "1234", chains, idempotencyKey })).rejects.toThrow("different registration");
+    });
+
+    it("keeps the runs of different apps apart", async () => {
+        const idempotencyKey = crypto.randomUUID();
+
+        await registerAccount({ id: crypto.randomUUID(), pin: "1234", appId: "app-a", chains, idempotencyKey });
+
+        expect(await registerAccount({ id: crypto.randomUUID(), pin: "1234", appId: "app-b", chains, idempotencyKey })).toEqual({ success: true });
+    });
+});
@@ -0,0 +1,114 @@
+import "dotenv/config";
+import { BadRequestError } from "fuse";
+import { Snapshot, createActor, waitFor } from "xstate";
+
+import { RegisterAccount, registerAccountMachine } from "@/machines/registerAccount.machine";
+import { RegistrationModel, getRegistrationRepository } from "@/repositories";
+import { generateKey } from "@/utils/crypto";
+import { WalletChain } from "@/providers";
+
+// How long a run, and so its idempotency key, is kept
+const registrationTTL = Number(process.env.REGISTRATION_TTL || 24 * 60 * 60);
+// A request that died mid-run holds the lock for this long at most
+const lockTimeout = 60;
+
+type RegistrationInput = { id: string; pin: string; appId?: string | null; chains: WalletChain[] };
+
+type RegistrationActor = ReturnType<typeof createActor<typeof registerAccountMachine>>;
+
+function toKey(appId: string | null | undefined, idempotencyKey: string) {
+    return `${appId || ""}:${idempotencyKey}`;
+}
+
+async function run(actor: RegistrationActor) {
+    const snapshot = await waitFor(actor, snapshot => snapshot.status === "done" || snapshot.matches("error"));
+
+    return {
+        snapshot,
+        result: (snapshot.status === "done" ? snapshot.output : { success: false, error: snapshot.context.error, code: snapshot.context.code }) as RegisterAccount,
+    };
+}
+
+export function getRegistrationResult(registration: RegistrationModel): RegisterAccount | null {
+    if (registration.state === "registered") {
+        return { success: true };
+    }
+
+    return registration.state === "error" ? { success: false, error: registration.error, code: registration.code } : null;
+}
+
+/**
+ * Runs the registration machine. With an idempotency key the run is
+ * persisted, a retry with the same key resumes it from the step that failed
+ * and a finished run only reports its outcome again.
+ */
+export async function registerAccount({ idempotencyKey, ...input }: RegistrationInput & { idempotencyKey?: string | null }) {
+    if (!idempotencyKey) {
+        const actor = createActor(registerAccountMachine).start();
+        actor.send({ type: "register", ...input });
+
+        return (await run(actor)).result;
+    }
+
+    const repository = getRegistrationRepository();
+    const key = toKey(input.appId, idempotencyKey);
+    const fingerprint = generateKey(JSON.stringify([input.id, input.appId || null, input.chains]));
+    const now = new Date();
+
+    const registration = await repository.acquire(key, new Date(now.getTime() + lockTimeout * 1000), {
+        appId: input.appId || null,
+        fingerprint,
+        state: "idle",
+        createdAt: now,
+        updatedAt: now,
+        expiresAt: new Date(now.getTime() + registrationTTL * 1000),
+    });
+
+    if (!registration) {
+        throw new BadRequestError("Registration with this idempotency key is in progress");
+    }
+
+    if (registration.fingerprint !== fingerprint) {
+        await repository.release(key, {});
+        throw new BadRequestError("Idempotency key was used for a different registration");
+    }
+
+    const previous = getRegistrationResult(registration);
+
+    if (previous?.success) {
+        await repository.release(key, {});
+        return previous;
+    }
+
+    try {
+        let actor: RegistrationActor;
+
+        if (registration.snapshot) {
+            actor = createActor(registerAccountMachine, { snapshot: registration.snapshot as Snapshot<unknown> }).start();
+            actor.send({ type: "retry", pin: input.pin });
+        } else {
+            actor = createActor(registerAccountMachine).start();
+            actor.send({ type: "register", ...input });
+        }
+
+        const { snapshot, result } = await run(actor);
+        const { pin, ...context } = snapshot.context;
+
+        await repository.release(key, {
+            state: snapshot.status === "done" ? "registered" : "error",
+            snapshot: { ...actor.getPersistedSnapshot(), context },
+            error: result.error,
+            code: result.code,
+            updatedAt: new Date(),
+        });
+
+        return result;
+    } catch (e) {
+        await repository.release(key, {});
+        throw e;
+    }
+}
+
+export async function getRegistration(appId: string | null | undefined, idempotencyKey: string) {
+    return getRegistrationRepository().find(toKey(appId, idempotencyKey));
+}
@@ -0,0 +1,67 @@
+import "dotenv/config";
+import { ForbiddenError, NotFoundError } from "fuse";
+
+import type { AppModel } from "@/repositories";
+
+export type RelyingParty = {
+    name: string;
+    rpIDs: string[];
+    origins: string[];
+};
+
+function parseList(value: string | undefined) {
+    return (value || "")
+        .split(",")
+        .map(entry => entry.trim())
+        .filter(Boolean);
+}
+
+const defaultRpIDs = parseList(process.env.RP_IDS).length ? parseList(process.env.RP_IDS) : ["localhost"];
+
+// Used for ceremonies without an `appId`, i.e. the Simpl3 account itself
+const defaultRelyingParty: RelyingParty = {
+    name: process.env.RP_NAME || "Simpl3 Auth",
+    rpIDs: defaultRpIDs,
+    origins: parseList(process.env.RP_ORIGINS).length
+        ? parseList(process.env.RP_ORIGINS)
+        : defaultRpIDs.map(rpID => `https://${rpID}`),
+};
+
+export function getRelyingParty(app: AppModel | null): RelyingParty {
+    if (!app) {
+        return defaultRelyingParty;
+    }
+
+    if (!app.rpIDs?.length || !app.origins?.length) {
+        throw new NotFoundError("App is not configured for passkeys");
+    }
+
+    return { name: app.name, rpIDs: app.rpIDs, origins: app.origins };
+}
+
+/**
+ * Rejects requests from origins the app did not register. Calls without an
+ * `Origin` header come from servers rather than browsers and are let through,
+ * the origin signed into the client data is still checked on verification.
+ */
+export function assertOrigin(rp: RelyingParty, origin: string | null) {
+    if (origin && !rp.origins.includes(origin)) {
+        throw new ForbiddenError("Origin is not allowed for this app");
+    }
+}
+
+/** Picks the RP ID the requesting origin can use, the first one otherwise. */
+export function selectRpID(rp: RelyingParty, origin: string | null) {
+    assertOrigin(rp, origin);
+
+    if (origin) {
+        const { hostname } = new URL(origin);
+        const rpID = rp.rpIDs.find(rpID => hostname === rpID || hostname.endsWith(`.${rpID}`));
+
+        if (rpID) {
+            return rpID;
+        }
+    }
+
+    return rp.rpIDs[0];
+}
@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { createSession, refreshSession, revokeSession, verifyAccessToken } from "@/utils/session";
+
+function decodePart(part: string) {
+    return JSON.parse(Buffer.from(part, "base64url").toString("utf-8"));
+}
+
+function encodePart(value: object) {
+    return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe("access tokens", () => {
+    it("are HS256 JWTs carrying the session", async () => {
+        const { accessToken } = await createSession({ accountId: "account", appId: "app", method: "pin" });
+        const [header, body] = accessToken.split(".");
+
+        expect(decodePart(header)).toEqual({ alg: "HS256", typ: "JWT" });
+        expect(decodePart(body)).toMatchObject({ sub: "account", app: "app", amr: "pin" });
+    });
+
+    it("decode to the principal of the session", async () => {
+        const { accessToken } = await createSession({ accountId: "account", appId: "app", method: "passkey" });
+
+        expect(await verifyAccessToken(accessToken)).toMatchObject({ accountId: "account", appId: "app", method: "passkey" });
+    });
+
+    it("are rejected when the payload was changed", async () => {
+        const { accessToken } = await createSession({ accountId: "account", method: "pin" });
+        const [header, body, signature] = accessToken.split(".");
+        const forged = encodePart({ ...decodePart(body), sub: "someone else" });
+
+        expect(await verifyAccessToken([header, forged, signature].join("."))).toBeNull();
+    });
+
+    it("are rejected when the signature was changed", async () => {
+        const { accessToken } = await createSession({ accountId: "account", method: "pin" });
+        const [header, body, signature] = accessToken.split(".");
+        const forged = (signature[0] === "A" ? "B" : "A") + signature.slice(1);
+
+        expect(await verifyAccessToken([header, body, forged].join("."))).toBeNull();
+        expect(await verifyAccessToken([header, body].join("."))).toBeNull();
+    });
+
+    it("are rejected once expired", async () => {
+        const { accessToken, expiresAt } = await createSession({ accountId: "account", method: "pin" });
+
+        vi.spyOn(Date, "now").mockReturnValue(expiresAt.getTime());
+
+        expect(await verifyAccessToken(accessToken)).toBeNull();
+    });
+
+    it("are rejected once the session is revoked", async () => {
+        const { accessToken } = await createSession({ accountId: "account", method: "pin" });
+        const principal = await verifyAccessToken(accessToken);
+
+        await revokeSession(principal!.sessionId);
+
+        expect(await verifyAccessToken(accessToken)).toBeNull();
+    });
+});
+
+describe("refreshSession", () => {
+    it("rotates the refresh token", async () => {
+        const session = await createSession({ accountId: "account", method: "pin" });
+        const next = await refreshSession(session.refreshToken);
+
+        expect(next).not.toBeNull();
+        expect(next!.refreshToken).not.toBe(session.refreshToken);
+        expect(await verifyAccessToken(next!.accessToken)).toMatchObject({ accountId: "account" });
+    });
+
+    it("revokes the session when a rotated token is used again", async () => {
+        const session = await createSession({ accountId: "account", method: "pin" });
+        const next = await refreshSession(session.refreshToken);
+
+        expect(await refreshSession(session.refreshToken)).toBeNull();
+        expect(await refreshSession(next!.refreshToken)).toBeNull();
+        expect(await verifyAccessToken(next!.accessToken)).toBeNull();
+    });
+});
@@ -0,0 +1,214 @@
+import crypto from "crypto";
+import { ForbiddenError } from "fuse";
+import "dotenv/config";
+import { SessionModel, getSessionRepository } from "@/repositories";
+import { SessionsDisabledError } from "@/utils/errors";
+
+const sessionSecret = process.env.SESSION_SECRET || "";
+const accessTokenTTL = Number(process.env.SESSION_ACCESS_TTL || 15 * 60);
+const refreshTokenTTL = Number(process.env.SESSION_REFRESH_TTL || 30 * 24 * 60 * 60);
+
+export type AuthMethod = "pin" | "passkey";
+
+export type Principal = {
+    accountId: string;
+    appId?: string | null;
+    sessionId: string;
+    method: AuthMethod;
+};
+
+export type Session = {
+    accessToken: string;
+    refreshToken: string;
+    expiresAt: Date;
+};
+
+type AccessTokenPayload = {
+    sub: string;
+    sid: string;
+    app?: string | null;
+    amr: AuthMethod;
+    iat: number;
+    exp: number;
+};
+
+function getSecret() {
+    assertSessionsEnabled();
+
+    return sessionSecret;
+}
+
+/**
+ * Logins check this before verifying anything, so that a server without
+ * SESSION_SECRET doesn't spend a PIN attempt on a session it can't issue.
+ */
+export function assertSessionsEnabled() {
+    if (!sessionSecret) {
+        throw new SessionsDisabledError();
+    }
+}
+
+function hashToken(value: string) {
+    return crypto.createHash("sha256").update(value).digest("hex");
+}
+
+function signValue(value: string) {
+    return crypto.createHmac("sha256", getSecret()).update(value).digest("base64url");
+}
+
+// Access tokens are compact HS256 JWTs so that clients can inspect the expiry.
+function encodeAccessToken(payload: AccessTokenPayload) {
+    const header = Buffer.from(JSON.stringify({ alg: "HS256", typ: "JWT" })).toString("base64url");
+    const body = Buffer.from(JSON.stringify(payload)).toString("base64url");
+
+    return [header, body, signValue([header, body].join("."))].join(".");
+}
+
+function decodeAccessToken(token: string) {
+    const [header, body, signature] = token.split(".");
+
+    if (!header || !body || !signature) {
+        return null;
+    }
+
+    const expected = Buffer.from(signValue([header, body].join(".")));
+    const received = Buffer.from(signature);
+
+    if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+        return null;
+    }
+
+    try {
+        const payload: AccessTokenPayload = JSON.parse(Buffer.from(body, "base64url").toString("utf-8"));
+
+        if (payload.exp * 1000 <= Date.now()) {
+            return null;
+        }
+
+        return payload;
+    } catch (e) {
+        return null;
+    }
+}
+
+function issueTokens(session: SessionModel) {
+    const now = Math.floor(Date.now() / 1000);
+    const expiresAt = new Date((now + accessTokenTTL) * 1000);
+
+    const accessToken = encodeAccessToken({
+        sub: session.accountId,
+        sid: session.id,
+        app: session.appId,
+        amr: session.method,
+        iat: now,
+        exp: Math.floor(expiresAt.getTime() / 1000),
+    });
+
+    return { accessToken, expiresAt };
+}
+
+export async function createSession({ accountId, appId, method }: { accountId: string; appId?: string | null; method: AuthMethod; }): Promise<Session> {
+    const id = crypto.randomUUID();
+    const secret = crypto.randomBytes(32).toString("base64url");
+
+    const session: SessionModel = {
+        id,
+        accountId,
+        appId,
+        method,
+        refreshTokenHash: hashToken(secret),
+        createdAt: new Date(),
+        expiresAt: new Date(Date.now() + refreshTokenTTL * 1000),
+    };
+
+    await getSessionRepository().create(session);
+
+    return {
+        ...issueTokens(session),
+        refreshToken: [id, secret].join("."),
+    };
+}
+
+export async function refreshSession(refreshToken: string): Promise<Session | null> {
+    const [id, secret] = refreshToken.split(".");
+
+    if (!id || !secret) {
+        return null;
+    }
+
+    const sessions = getSessionRepository();
+    const session = await sessions.findById(id);
+
+    if (!session || session.revokedAt || session.expiresAt.getTime() <= Date.now()) {
+        return null;
+    }
+
+    // A refresh token that was already rotated away means it leaked, so the
+    // whole session is revoked rather than just rejecting the request.
+    if (session.refreshTokenHash !== hashToken(secret)) {
+        await revokeSession(id);
+        return null;
+    }
+
+    const nextSecret = crypto.randomBytes(32).toString("base64url");
+
+    if (!await sessions.rotateRefreshToken(id, session.refreshTokenHash, hashToken(nextSecret))) {
+        return null;
+    }
+
+    return {
+        ...issueTokens(session),
+        refreshToken: [id, nextSecret].join("."),
+    };
+}
+
+export async function revokeSession(sessionId: string) {
+    return getSessionRepository().revoke(sessionId);
+}
+
+export async function revokeRefreshToken(refreshToken: string) {
+    const [id, secret] = refreshToken.split(".");
+
+    if (!id || !secret) {
+        return false;
+    }
+
+    return getSessionRepository().revoke(id, hashToken(secret));
+}
+
+/**
+ * Sessions don't stand in for the identifier and PIN of signing calls. The
+ * wallet keys are derived from both and neither is stored, so each signature
+ * needs them again. A session only keeps the call to its own account.
+ */
+export function assertSessionAccount(principal: Principal | null, accountId: string) {
+    if (principal && principal.accountId !== accountId) {
+        throw new ForbiddenError("Session does not belong to this account");
+    }
+}
+
+export async function verifyAccessToken(token: string): Promise<Principal | null> {
+    // Without a secret no token can be valid, requests go on unauthenticated
+    if (!sessionSecret) {
+        return null;
+    }
+
+    const payload = decodeAccessToken(token);
+
+    if (!payload) {
+        return null;
+    }
+
+    const session = await getSessionRepository().findById(payload.sid);
+
+    if (!session || session.revokedAt || session.accountId !== payload.sub) {
+        return null;
+    }
+
+    return {
+        accountId: payload.sub,
+        appId: payload.app,
+        sessionId: payload.sid,
+        method: payload.amr,
+    };
+}
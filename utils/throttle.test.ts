@@ -0,0 +1,98 @@
+import crypto from "crypto";
+import { describe, expect, it } from "vitest";
+
+import { AccountLockedError } from "@/utils/errors";
+import { clearAttempts, getAttemptKeys, recordFailure, releaseAttempt, reserveAttempt, throttleAttempt } from "@/utils/throttle";
+
+function newKeys() {
+    return getAttemptKeys({ accountId: crypto.randomUUID(), client: crypto.randomUUID() });
+}
+
+async function lockedUntil(promise: Promise<unknown>) {
+    try {
+        await promise;
+    } catch (e) {
+        expect(e).toBeInstanceOf(AccountLockedError);
+        return (e as AccountLockedError).retryAfter;
+    }
+
+    return null;
+}
+
+describe("throttleAttempt", () => {
+    it("locks the account and the client after a failure", async () => {
+        const [account, client] = newKeys();
+        const before = Date.now();
+
+        expect(await throttleAttempt([account, client], async () => null)).toBeNull();
+
+        const retryAfter = await lockedUntil(throttleAttempt([account], async () => true));
+        expect(retryAfter!.getTime()).toBeGreaterThanOrEqual(before + 1000);
+        expect(await lockedUntil(throttleAttempt([client], async () => true))).toEqual(retryAfter);
+    });
+
+    it("clears the account counter on success but keeps the client one", async () => {
+        const [account, client] = newKeys();
+
+        await reserveAttempt([account, client]);
+        await recordFailure([account, client]);
+        await clearAttempts([account]);
+
+        expect(await throttleAttempt([account], async () => true)).toBe(true);
+        expect(await lockedUntil(reserveAttempt([client]))).not.toBeNull();
+    });
+
+    it("doesn't count errors as failed attempts", async () => {
+        const keys = newKeys();
+
+        await expect(throttleAttempt(keys, async () => {
+            throw new Error("Provider unavailable");
+        })).rejects.toThrow("Provider unavailable");
+
+        expect(await throttleAttempt(keys, async () => "ok")).toBe("ok");
+    });
+});
+
+describe("reserveAttempt", () => {
+    it("lets no more attempts run at once than the limit", async () => {
+        const keys = newKeys();
+
+        for (let i = 0; i < 5; i++) {
+            await reserveAttempt(keys);
+        }
+
+        expect(await lockedUntil(reserveAttempt(keys))).not.toBeNull();
+
+        await releaseAttempt(keys);
+        await reserveAttempt(keys);
+    });
+
+    it("reserves every key or none of them", async () => {
+        const [account, client] = newKeys();
+
+        await reserveAttempt([client]);
+        await recordFailure([client]);
+
+        expect(await lockedUntil(reserveAttempt([account, client]))).not.toBeNull();
+
+        // The account was not left holding a reservation
+        for (let i = 0; i < 5; i++) {
+            await reserveAttempt([account]);
+        }
+    });
+});
+
+describe("clearAttempts", () => {
+    it("keeps failures from before the given time", async () => {
+        const [account] = newKeys();
+
+        await reserveAttempt([account]);
+        await recordFailure([account]);
+
+        await clearAttempts([account], new Date(Date.now() + 1000));
+        expect(await lockedUntil(reserveAttempt([account]))).not.toBeNull();
+
+        await clearAttempts([account], new Date(Date.now() - 60 * 1000));
+        await reserveAttempt([account]);
+    });
+});
@@ -0,0 +1,111 @@
+import "dotenv/config";
+import { AttemptKey, getAttemptRepository } from "@/repositories";
+import { AccountLockedError } from "@/utils/errors";
+
+const maxAttempts = Number(process.env.PIN_MAX_ATTEMPTS || 5);
+const backoffSeconds = Number(process.env.PIN_BACKOFF_SECONDS || 1);
+const lockoutSeconds = Number(process.env.PIN_LOCKOUT_SECONDS || 5 * 60);
+const maxLockoutSeconds = Number(process.env.PIN_MAX_LOCKOUT_SECONDS || 24 * 60 * 60);
+
+// A few quick retries are delayed exponentially, after `maxAttempts` the
+// delay turns into a lockout that keeps doubling with every further failure.
+function getDelaySeconds(failures: number) {
+    if (failures >= maxAttempts) {
+        return Math.min(lockoutSeconds * 2 ** (failures - maxAttempts), maxLockoutSeconds);
+    }
+
+    return Math.min(backoffSeconds * 2 ** (failures - 1), maxLockoutSeconds);
+}
+
+export function getAttemptKeys({ accountId, client }: { accountId: string; client?: string | null; }) {
+    const keys: AttemptKey[] = [{ scope: "account", key: accountId }];
+
+    if (client) {
+        keys.push({ scope: "client", key: client });
+    }
+
+    return keys;
+}
+
+async function throwLocked(keys: AttemptKey[]) {
+    // Refused without a lock means the last attempts are still running
+    const lockedUntil = await getAttemptRepository().findLockedUntil(keys);
+
+    throw new AccountLockedError(lockedUntil || new Date(Date.now() + backoffSeconds * 1000));
+}
+
+/**
+ * Reserves an attempt on every key, or on none of them. The reservation is
+ * what enforces the limits, so requests racing each other can't run more
+ * attempts than the counters allow.
+ */
+export async function reserveAttempt(keys: AttemptKey[]) {
+    const attempts = getAttemptRepository();
+    const expiresAt = new Date(Date.now() + maxLockoutSeconds * 1000);
+    const reserved: AttemptKey[] = [];
+
+    for (const key of keys) {
+        if (!await attempts.reserve(key, maxAttempts, expiresAt)) {
+            await Promise.all(reserved.map(key => attempts.release(key)));
+            await throwLocked(keys);
+        }
+
+        reserved.push(key);
+    }
+}
+
+export async function releaseAttempt(keys: AttemptKey[]) {
+    const attempts = getAttemptRepository();
+
+    await Promise.all(keys.map(key => attempts.release(key)));
+}
+
+/** Settles a reserved attempt as failed and locks the keys for the backoff. */
+export async function recordFailure(keys: AttemptKey[]) {
+    const attempts = getAttemptRepository();
+    const now = new Date();
+
+    for (const key of keys) {
+        const failures = await attempts.fail(key);
+        const lockedUntil = new Date(now.getTime() + getDelaySeconds(failures) * 1000);
+
+        // Counters are forgotten once the account has been quiet for the longest lockout
+        await attempts.lock(key, lockedUntil, new Date(lockedUntil.getTime() + maxLockoutSeconds * 1000));
+    }
+}
+
+/**
+ * Lifts the lockout of the keys. With `after`, failures that started before
+ * then are kept, e.g. a passkey only vouches for failures since it was added.
+ */
+export async function clearAttempts(keys: AttemptKey[], after?: Date) {
+    await getAttemptRepository().clear(keys, after);
+}
+
+/**
+ * Runs a PIN check in an attempt reserved on every key. A `null`/`false`
+ * result counts as a failed attempt, anything else clears the account counter.
+ * Errors are passed through uncounted so that provider outages don't lock
+ * users out. Client counters are only cleared by expiry so that a client can't
+ * reset its own counter by logging into an account it controls.
+ */
+export async function throttleAttempt<T>(keys: AttemptKey[], attempt: () => Promise<T>) {
+    await reserveAttempt(keys);
+
+    let result: T;
+    try {
+        result = await attempt();
+    } catch (e) {
+        await releaseAttempt(keys);
+        throw e;
+    }
+
+    if (result === null || result === false) {
+        await recordFailure(keys);
+    } else {
+        await releaseAttempt(keys);
+        await clearAttempts(keys.filter(({ scope }) => scope === "account"));
+    }
+
+    return result;
+}
@@ -0,0 +1,121 @@
+import { Keypair, PublicKey, SystemProgram, Transaction, TransactionInstruction, TransactionMessage, VersionedTransaction } from "@solana/web3.js";
+import { describe, expect, it } from "vitest";
+
+import { getTransfers, tokenProgramIds } from "@/utils/transaction";
+
+const payer = Keypair.generate().publicKey;
+const destination = Keypair.generate().publicKey;
+const blockhash = "11111111111111111111111111111111";
+
+function legacy(...instructions: TransactionInstruction[]) {
+    return new Transaction({ feePayer: payer, recentBlockhash: blockhash }).add(...instructions);
+}
+
+function tokenInstruction(data: Buffer, keys: PublicKey[]) {
+    return new TransactionInstruction({
+        programId: new PublicKey(tokenProgramIds[0]),
+        keys: keys.map(pubkey => ({ pubkey, isSigner: pubkey.equals(payer), isWritable: true })),
+        data,
+    });
+}
+
+function amountData(instruction: number, amount: bigint, decimals?: number) {
+    const data = Buffer.alloc(decimals === undefined ? 9 : 10);
+    data[0] = instruction;
+    data.writeBigUInt64LE(amount, 1);
+
+    if (decimals !== undefined) {
+        data[9] = decimals;
+    }
+
+    return data;
+}
+
+describe("getTransfers", () => {
+    it("reads SOL transfers", () => {
+        const transfers = getTransfers(legacy(SystemProgram.transfer({ fromPubkey: payer, toPubkey: destination, lamports: 5000 })));
+
+        expect(transfers).toEqual([{ asset: "sol", authority: payer.toBase58(), destination: destination.toBase58(), amount: 5000n }]);
+    });
+
+    it("reads the lamports of CreateAccountWithSeed after the seed", () => {
+        const newAccount = Keypair.generate().publicKey;
+        const transfers = getTransfers(legacy(SystemProgram.createAccountWithSeed({
+            fromPubkey: payer,
+            newAccountPubkey: newAccount,
+            basePubkey: payer,
+            seed: "vault",
+            lamports: 1234,
+            space: 0,
+            programId: SystemProgram.programId,
+        })));
+
+        expect(transfers).toEqual([{ asset: "sol", authority: payer.toBase58(), destination: newAccount.toBase58(), amount: 1234n }]);
+    });
+
+    it("skips a CreateAccountWithSeed too short to hold the seed length", () => {
+        const data = Buffer.alloc(16);
+        data.writeUInt32LE(3, 0);
+
+        const transaction = legacy(new TransactionInstruction({
+            programId: SystemProgram.programId,
+            keys: [{ pubkey: payer, isSigner: true, isWritable: true }, { pubkey: destination, isSigner: false, isWritable: true }],
+            data,
+        }));
+
+        expect(getTransfers(transaction)).toEqual([]);
+    });
+
+    it("keeps u64 amounts exact", () => {
+        const lamports = 2n ** 64n - 1n;
+        const data = Buffer.alloc(12);
+        data.writeUInt32LE(2, 0);
+        data.writeBigUInt64LE(lamports, 4);
+
+        const transaction = legacy(new TransactionInstruction({
+            programId: SystemProgram.programId,
+            keys: [{ pubkey: payer, isSigner: true, isWritable: true }, { pubkey: destination, isSigner: false, isWritable: true }],
+            data,
+        }));
+
+        expect(getTransfers(transaction)[0].amount).toBe(lamports);
+    });
+
+    it("reads token transfers and approvals", () => {
+        const source = Keypair.generate().publicKey;
+        const mint = Keypair.generate().publicKey;
+
+        const transfers = getTransfers(legacy(
+            tokenInstruction(amountData(3, 10n), [source, destination, payer]),
+            tokenInstruction(amountData(4, 20n), [source, destination, payer]),
+            tokenInstruction(amountData(12, 30n, 6), [source, mint, destination, payer]),
+        ));
+
+        expect(transfers).toEqual([
+            { asset: "token", authority: payer.toBase58(), destination: destination.toBase58(), amount: 10n },
+            { asset: "token", authority: payer.toBase58(), destination: destination.toBase58(), amount: 20n },
+            { asset: "token", authority: payer.toBase58(), destination: destination.toBase58(), amount: 30n, mint: mint.toBase58() },
+        ]);
+    });
+
+    it("ignores instructions that move no funds", () => {
+        const transaction = legacy(
+            SystemProgram.allocate({ accountPubkey: payer, space: 10 }),
+            new TransactionInstruction({ programId: Keypair.generate().publicKey, keys: [], data: Buffer.from([2, 0, 0, 0]) }),
+        );
+
+        expect(getTransfers(transaction)).toEqual([]);
+    });
+
+    it("reads v0 transactions", () => {
+        const message = new TransactionMessage({
+            payerKey: payer,
+            recentBlockhash: blockhash,
+            instructions: [SystemProgram.transfer({ fromPubkey: payer, toPubkey: destination, lamports: 42 })],
+        }).compileToV0Message();
+
+        expect(getTransfers(new VersionedTransaction(message))).toEqual([
+            { asset: "sol", authority: payer.toBase58(), destination: destination.toBase58(), amount: 42n },
+        ]);
+    });
+});
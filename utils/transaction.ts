@@ -0,0 +1,206 @@
+import crypto from "crypto";
+import { Keypair, SystemProgram, Transaction, VersionedTransaction } from "@solana/web3.js";
+
+import { InvalidTransactionError } from "@/utils/errors";
+
+export type AnyTransaction = Transaction | VersionedTransaction;
+
+export type InstructionData = {
+    programId: string;
+    // Accounts loaded from address lookup tables can't be resolved offline and are null
+    accounts: (string | null)[];
+    data: Buffer;
+};
+
+export type Transfer = {
+    asset: "sol" | "token";
+    // The signer the movement of funds is taken from
+    authority: string | null;
+    destination: string | null;
+    // Lamports or raw token base units
+    amount: bigint;
+    // Known for checked token instructions only
+    mint?: string | null;
+};
+
+const systemProgramId = SystemProgram.programId.toBase58();
+
+export const tokenProgramIds = [
+    "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA",
+    // Token-2022 keeps the instruction layout of the original program
+    "TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb",
+];
+
+// Legacy and v0 transactions share the same wire format up to the message
+// prefix, so the versioned decoder is used to detect which one we received.
+export function deserializeTransaction(tx: string): AnyTransaction {
+    const bytes = Buffer.from(tx, "base64");
+    const versioned = VersionedTransaction.deserialize(bytes);
+
+    if (versioned.version === "legacy") {
+        return Transaction.from(bytes);
+    }
+
+    return versioned;
+}
+
+/** Deserializes a transaction sent by a client, rejecting malformed ones. */
+export function parseTransaction(tx: string) {
+    try {
+        return deserializeTransaction(tx);
+    } catch (e) {
+        throw new InvalidTransactionError();
+    }
+}
+
+export function serializeTransaction(transaction: AnyTransaction) {
+    if (transaction instanceof VersionedTransaction) {
+        return Buffer.from(transaction.serialize()).toString("base64");
+    }
+
+    return transaction.serialize({
+        requireAllSignatures: false,
+        verifySignatures: false,
+    }).toString("base64");
+}
+
+export function getMessageBytes(transaction: AnyTransaction) {
+    if (transaction instanceof VersionedTransaction) {
+        return Buffer.from(transaction.message.serialize());
+    }
+
+    return transaction.serializeMessage();
+}
+
+// Invoked programs always sit in the static account keys, address lookup
+// tables can't supply them.
+export function getProgramIds(transaction: AnyTransaction) {
+    return [...new Set(getInstructions(transaction).map(ix => ix.programId))];
+}
+
+export function getInstructions(transaction: AnyTransaction): InstructionData[] {
+    if (transaction instanceof VersionedTransaction) {
+        const keys = transaction.message.staticAccountKeys;
+        const key = (index: number) => index < keys.length ? keys[index].toBase58() : null;
+
+        return transaction.message.compiledInstructions.map(ix => ({
+            programId: keys[ix.programIdIndex].toBase58(),
+            accounts: ix.accountKeyIndexes.map(key),
+            data: Buffer.from(ix.data),
+        }));
+    }
+
+    return transaction.instructions.map(ix => ({
+        programId: ix.programId.toBase58(),
+        accounts: ix.keys.map(meta => meta.pubkey.toBase58()),
+        data: ix.data,
+    }));
+}
+
+// Accounts whose signature the transaction needs, fee payer first
+export function getSigners(transaction: AnyTransaction) {
+    if (transaction instanceof VersionedTransaction) {
+        const { header, staticAccountKeys } = transaction.message;
+
+        return staticAccountKeys.slice(0, header.numRequiredSignatures).map((key, index) => ({
+            address: key.toBase58(),
+            signed: transaction.signatures[index]?.some(byte => byte !== 0) ?? false,
+        }));
+    }
+
+    return transaction.signatures.map(({ publicKey, signature }) => ({
+        address: publicKey.toBase58(),
+        signed: !!signature,
+    }));
+}
+
+function getSystemTransfer({ accounts, data }: InstructionData): Transfer | null {
+    const account = (index: number) => accounts[index] ?? null;
+
+    if (data.length < 12) {
+        return null;
+    }
+
+    switch (data.readUInt32LE(0)) {
+        // CreateAccount and Transfer
+        case 0:
+        case 2:
+            return { asset: "sol", authority: account(0), destination: account(1), amount: data.readBigUInt64LE(4) };
+        // CreateAccountWithSeed, the lamports follow the base key and the seed
+        case 3: {
+            if (data.length < 44) {
+                return null;
+            }
+
+            const offset = 36 + 8 + Number(data.readBigUInt64LE(36));
+
+            return data.length < offset + 8 ? null : { asset: "sol", authority: account(0), destination: account(1), amount: data.readBigUInt64LE(offset) };
+        }
+        // WithdrawNonceAccount
+        case 5:
+            return { asset: "sol", authority: account(4), destination: account(1), amount: data.readBigUInt64LE(4) };
+        // TransferWithSeed, funds leave the derived account on behalf of its base
+        case 11:
+            return { asset: "sol", authority: account(1), destination: account(2), amount: data.readBigUInt64LE(4) };
+        default:
+            return null;
+    }
+}
+
+function getTokenTransfer({ accounts, data }: InstructionData): Transfer | null {
+    const account = (index: number) => accounts[index] ?? null;
+
+    if (data.length < 9) {
+        return null;
+    }
+
+    const amount = data.readBigUInt64LE(1);
+
+    switch (data[0]) {
+        // Transfer, and Approve which lets the delegate move the amount later
+        case 3:
+        case 4:
+            return { asset: "token", authority: account(2), destination: account(1), amount };
+        // TransferChecked and ApproveChecked
+        case 12:
+        case 13:
+            return { asset: "token", authority: account(3), destination: account(2), amount, mint: account(1) };
+        default:
+            return null;
+    }
+}
+
+/**
+ * Lists the SOL and SPL token movements a transaction makes, whoever signs
+ * for them. Token destinations are token accounts, not their owners.
+ */
+export function getTransfers(transaction: AnyTransaction) {
+    return getInstructions(transaction)
+        .map(ix => {
+            if (ix.programId === systemProgramId) {
+                return getSystemTransfer(ix);
+            }
+
+            return tokenProgramIds.includes(ix.programId) ? getTokenTransfer(ix) : null;
+        })
+        .filter((transfer): transfer is Transfer => transfer !== null);
+}
+
+export function partialSignTransaction(transaction: AnyTransaction, signer: Keypair) {
+    if (transaction instanceof VersionedTransaction) {
+        // Only replaces the signer's own slot, other signatures are kept
+        transaction.sign([signer]);
+    } else {
+        transaction.partialSign(signer);
+    }
+
+    return transaction;
+}
+
+// Hash of the message bytes that the signers commit to, so it stays stable
+// while signatures are being added to the transaction.
+export function hashTransaction(tx: string) {
+    const message = getMessageBytes(parseTransaction(tx));
+
+    return crypto.createHash("sha256").update(message).digest();
+}
@@ -0,0 +1,140 @@
+import crypto from "crypto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { WebhookEvent, getWebhookRepository } from "@/repositories";
+import { createEndpoint, emitEvent, removeEndpoint, replayDelivery, signPayload, startDeliveryWorker } from "@/utils/webhooks";
+
+// A public address, so the endpoints pass the private network check without DNS
+const url = "https://93.184.216.34/hook";
+
+let fetchMock: ReturnType<typeof vi.fn>;
+
+function respondWith(status: number) {
+    fetchMock.mockImplementation(async () => new Response(null, { status }));
+}
+
+async function findDelivery(appId: string, endpointId: string) {
+    const [delivery] = await getWebhookRepository().listDeliveries({ appId, endpointId, limit: 1 });
+
+    return delivery;
+}
+
+// Deliveries are sent in the background, this waits for the latest one to match
+async function expectDelivery(appId: string, endpointId: string, expected: Record<string, unknown>) {
+    return vi.waitFor(async () => {
+        const delivery = await findDelivery(appId, endpointId);
+
+        expect(delivery).toMatchObject(expected);
+        return delivery;
+    });
+}
+
+async function newEndpoint(events: WebhookEvent[] = ["MESSAGE_SIGNED"]) {
+    const appId = crypto.randomUUID();
+    const { endpoint, secret } = await createEndpoint(appId, { url, events });
+
+    return { appId, endpoint, secret };
+}
+
+beforeEach(() => {
+    fetchMock = vi.fn();
+    respondWith(204);
+    vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe("signPayload", () => {
+    it("signs the timestamp and the body", () => {
+        const signature = crypto.createHmac("sha256", "secret").update("1700000000.{}").digest("hex");
+
+        expect(signPayload("secret", "{}", 1700000000)).toBe(`t=1700000000,v1=${signature}`);
+    });
+});
+
+describe("createEndpoint", () => {
+    it("refuses plain http and private addresses", async () => {
+        for (const refused of [
+            "http://93.184.216.34/hook",
+            "https://10.0.0.1/hook",
+            "https://169.254.169.254/latest/meta-data",
+            "https://[::1]/hook",
+            "https://[fd00::1]/hook",
+            "http://localhost:3000/hook",
+        ]) {
+            await expect(createEndpoint("app", { url: refused, events: ["MESSAGE_SIGNED"] }), refused).rejects.toThrow();
+        }
+    });
+
+    it("needs at least one event", async () => {
+        await expect(createEndpoint("app", { url, events: [] })).rejects.toThrow("at least one event");
+    });
+});
+
+describe("emitEvent", () => {
+    it("sends subscribed events, signed with the endpoint secret", async () => {
+        const { appId, endpoint, secret } = await newEndpoint();
+
+        await emitEvent(appId, "ACCOUNT_REGISTERED", { accountId: "account" });
+        await emitEvent(appId, "MESSAGE_SIGNED", { accountId: "account" });
+
+        const delivery = await expectDelivery(appId, endpoint.id, { event: "MESSAGE_SIGNED", status: "delivered", attempts: 1, responseStatus: 204 });
+
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        const [[calledUrl, init]] = fetchMock.mock.calls;
+        const [, timestamp] = init.headers["x-simpl3-signature"].match(/^t=(\d+),/);
+        expect(calledUrl).toBe(url);
+        expect(init.body).toBe(delivery.payload);
+        expect(init.headers["x-simpl3-signature"]).toBe(signPayload(secret, delivery.payload, Number(timestamp)));
+        expect(JSON.parse(init.body)).toMatchObject({ type: "MESSAGE_SIGNED", appId, data: { accountId: "account" } });
+    });
+
+    it("keeps failed deliveries for a retry after a backoff", async () => {
+        respondWith(500);
+        const { appId, endpoint } = await newEndpoint();
+
+        await emitEvent(appId, "MESSAGE_SIGNED", {});
+
+        const delivery = await expectDelivery(appId, endpoint.id, { status: "pending", attempts: 1, responseStatus: 500, error: "Endpoint responded with 500" });
+        expect(delivery.nextAttemptAt.getTime() - delivery.lastAttemptAt!.getTime()).toBe(30 * 1000);
+        await expect(replayDelivery(appId, delivery.id)).rejects.toThrow("still being retried");
+    });
+
+    it("fails deliveries to removed endpoints", async () => {
+        const { appId, endpoint } = await newEndpoint();
+
+        await emitEvent(appId, "MESSAGE_SIGNED", {});
+        const delivery = await expectDelivery(appId, endpoint.id, { status: "delivered" });
+
+        await removeEndpoint(appId, endpoint.id);
+        await replayDelivery(appId, delivery.id);
+
+        await expectDelivery(appId, endpoint.id, { status: "failed", error: "Endpoint was removed" });
+    });
+});
+
+describe("startDeliveryWorker", () => {
+    it("sends deliveries that were left pending", async () => {
+        const { appId, endpoint } = await newEndpoint();
+        const now = new Date();
+
+        await getWebhookRepository().enqueue([{
+            id: crypto.randomUUID(),
+            appId,
+            endpointId: endpoint.id,
+            event: "MESSAGE_SIGNED",
+            payload: "{}",
+            status: "pending",
+            attempts: 2,
+            nextAttemptAt: now,
+            createdAt: now,
+            expiresAt: new Date(now.getTime() + 60 * 1000),
+        }]);
+
+        startDeliveryWorker();
+
+        await expectDelivery(appId, endpoint.id, { status: "delivered", attempts: 3 });
+    });
+});
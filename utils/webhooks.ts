@@ -0,0 +1,389 @@
+import "dotenv/config";
+import crypto from "crypto";
+import dns from "dns/promises";
+import net from "net";
+import { BadRequestError, NotFoundError } from "fuse";
+
+import { WebhookDeliveryModel, WebhookDeliveryStatus, WebhookEndpointModel, WebhookEvent, getWebhookRepository } from "@/repositories";
+import { getAccount } from "@/utils/accounts";
+import { decodeCursor, getPageSize, toPage } from "@/utils/cursor";
+
+// Attempts before a delivery is given up on, and how long deliveries are kept
+const maxAttempts = Number(process.env.WEBHOOK_MAX_ATTEMPTS || 12);
+const deliveryTTL = Number(process.env.WEBHOOK_RETENTION || 7 * 24 * 60 * 60);
+// How often the outbox is checked for retries that are due
+const pollInterval = Number(process.env.WEBHOOK_POLL_INTERVAL || 30);
+
+const requestTimeout = 10;
+// An attempt that died mid-request is retried after this long at most
+const leaseTimeout = 60;
+const batchSize = 20;
+
+const deliveryStatuses: WebhookDeliveryStatus[] = ["pending", "delivered", "failed"];
+
+export const signatureHeader = "x-simpl3-signature";
+
+// Private, loopback, link-local (cloud metadata included), CGNAT, multicast
+// and reserved ranges, which endpoints may only point to during development
+const privateNetworks = new net.BlockList();
+
+for (const [network, prefix] of [
+    ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16], ["172.16.0.0", 12],
+    ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 4], ["240.0.0.0", 4],
+] as const) {
+    privateNetworks.addSubnet(network, prefix, "ipv4");
+}
+
+for (const [network, prefix] of [
+    ["::", 127], ["64:ff9b::", 96], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8],
+] as const) {
+    privateNetworks.addSubnet(network, prefix, "ipv6");
+}
+
+const allowPrivateNetworks = process.env.NODE_ENV === "development";
+
+export type WebhookEndpointSettings = {
+    url?: string | null;
+    events?: WebhookEvent[] | null;
+    enabled?: boolean | null;
+};
+
+function issueSecret() {
+    return crypto.randomBytes(32).toString("base64url");
+}
+
+/**
+ * Resolves the host and refuses it when any of its addresses is private, so
+ * that endpoints can't be aimed at the internal network.
+ */
+async function assertPublicHost(url: URL) {
+    if (allowPrivateNetworks) {
+        return;
+    }
+
+    const hostname = url.hostname.replace(/^\[(.*)\]$/, "$1");
+    let addresses: { address: string; family: number }[];
+
+    try {
+        addresses = net.isIP(hostname)
+            ? [{ address: hostname, family: net.isIP(hostname) }]
+            : await dns.lookup(hostname, { all: true, verbatim: true });
+    } catch (e) {
+        throw new BadRequestError("Webhook URL host could not be resolved");
+    }
+
+    if (!addresses.length || addresses.some(({ address, family }) => privateNetworks.check(address, family === 6 ? "ipv6" : "ipv4"))) {
+        throw new BadRequestError("Webhook URLs must point to a public address");
+    }
+}
+
+async function assertUrl(value: string) {
+    let url: URL;
+    try {
+        url = new URL(value);
+    } catch (e) {
+        throw new BadRequestError("Invalid webhook URL");
+    }
+
+    // Plain HTTP only for endpoints on the same machine, during development
+    if (url.protocol !== "https:" && !(url.protocol === "http:" && ["localhost", "127.0.0.1"].includes(url.hostname))) {
+        throw new BadRequestError("Webhook URLs must use https");
+    }
+
+    await assertPublicHost(url);
+
+    return url.toString();
+}
+
+function assertEvents(events: WebhookEvent[]) {
+    if (!events.length) {
+        throw new BadRequestError("Subscribe the endpoint to at least one event");
+    }
+
+    return [...new Set(events)];
+}
+
+async function findEndpoint(appId: string, id: string) {
+    const endpoint = await getWebhookRepository().findEndpoint(appId, id);
+
+    if (!endpoint) {
+        throw new NotFoundError("Unknown webhook endpoint");
+    }
+
+    return endpoint;
+}
+
+export async function listEndpoints(appId: string) {
+    return getWebhookRepository().listEndpoints(appId);
+}
+
+export async function createEndpoint(appId: string, { url, events }: { url: string; events: WebhookEvent[] }) {
+    const now = new Date();
+    const secret = issueSecret();
+
+    const endpoint: WebhookEndpointModel = {
+        id: crypto.randomUUID(),
+        appId,
+        url: await assertUrl(url),
+        secret,
+        events: assertEvents(events),
+        enabled: true,
+        createdAt: now,
+        updatedAt: now,
+    };
+
+    await getWebhookRepository().saveEndpoint(endpoint);
+
+    return { endpoint, secret };
+}
+
+export async function updateEndpoint(appId: string, id: string, { url, events, enabled }: WebhookEndpointSettings) {
+    const endpoint = await findEndpoint(appId, id);
+
+    const updated: WebhookEndpointModel = {
+        ...endpoint,
+        ...(url != null ? { url: await assertUrl(url) } : {}),
+        ...(events != null ? { events: assertEvents(events) } : {}),
+        ...(enabled != null ? { enabled } : {}),
+        updatedAt: new Date(),
+    };
+
+    await getWebhookRepository().saveEndpoint(updated);
+
+    return updated;
+}
+
+/**
+ * Replaces the signing secret. It takes effect right away, retries of
+ * earlier events are signed with the new one too.
+ */
+export async function rotateEndpointSecret(appId: string, id: string) {
+    const endpoint = await findEndpoint(appId, id);
+    const secret = issueSecret();
+    const updated = { ...endpoint, secret, updatedAt: new Date() };
+
+    await getWebhookRepository().saveEndpoint(updated);
+
+    return { endpoint: updated, secret };
+}
+
+export async function removeEndpoint(appId: string, id: string) {
+    if (!await getWebhookRepository().removeEndpoint(appId, id)) {
+        throw new NotFoundError("Unknown webhook endpoint");
+    }
+
+    return true;
+}
+
+/**
+ * Signature of a payload as sent in the signature header, `t=<unix time>,v1=<hex>`.
+ * The HMAC-SHA256 covers the timestamp and the body joined by a dot, so
+ * receivers can reject old requests that are played back to them.
+ */
+export function signPayload(secret: string, payload: string, timestamp = Math.floor(Date.now() / 1000)) {
+    const signature = crypto.createHmac("sha256", secret).update(`${timestamp}.${payload}`).digest("hex");
+
+    return `t=${timestamp},v1=${signature}`;
+}
+
+// 30 seconds after the first failure, doubling up to 6 hours
+function getBackoff(attempts: number) {
+    return Math.min(30 * 2 ** (attempts - 1), 6 * 60 * 60);
+}
+
+async function deliver(delivery: WebhookDeliveryModel) {
+    const repository = getWebhookRepository();
+    const endpoint = await repository.findEndpoint(delivery.appId, delivery.endpointId);
+    const now = new Date();
+
+    if (!endpoint || !endpoint.enabled) {
+        await repository.updateDelivery(delivery.id, {
+            status: "failed",
+            error: endpoint ? "Endpoint is disabled" : "Endpoint was removed",
+            lastAttemptAt: now,
+        });
+        return;
+    }
+
+    const attempts = delivery.attempts + 1;
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+
+    try {
+        // Checked again on every attempt, the host may resolve elsewhere by now
+        await assertPublicHost(new URL(endpoint.url));
+
+        const response = await fetch(endpoint.url, {
+            method: "POST",
+            headers: {
+                "content-type": "application/json",
+                "user-agent": "Simpl3-Webhooks",
+                "x-simpl3-event": delivery.event,
+                "x-simpl3-delivery": delivery.id,
+                [signatureHeader]: signPayload(endpoint.secret, delivery.payload),
+            },
+            body: delivery.payload,
+            redirect: "manual",
+            signal: AbortSignal.timeout(requestTimeout * 1000),
+        });
+
+        responseStatus = response.status;
+
+        if (!response.ok) {
+            error = `Endpoint responded with ${response.status}`;
+        }
+    } catch (e) {
+        error = e instanceof Error ? e.message : String(e);
+    }
+
+    if (!error) {
+        await repository.updateDelivery(delivery.id, { status: "delivered", attempts, responseStatus, error: null, lastAttemptAt: now, deliveredAt: new Date() });
+        return;
+    }
+
+    await repository.updateDelivery(delivery.id, {
+        status: attempts >= maxAttempts ? "failed" : "pending",
+        attempts,
+        responseStatus,
+        error,
+        lastAttemptAt: now,
+        nextAttemptAt: new Date(now.getTime() + getBackoff(attempts) * 1000),
+    });
+}
+
+let dispatching = false;
+
+/** Sends every delivery that is due, a run already in progress picks up new ones itself. */
+export async function dispatchDeliveries() {
+    if (dispatching) {
+        return;
+    }
+
+    dispatching = true;
+
+    try {
+        const repository = getWebhookRepository();
+
+        for (;;) {
+            const deliveries = await repository.claimDue(new Date(Date.now() + leaseTimeout * 1000), batchSize);
+
+            if (!deliveries.length) {
+                break;
+            }
+
+            await Promise.all(deliveries.map(delivery => deliver(delivery).catch(e => console.log(e))));
+        }
+    } finally {
+        dispatching = false;
+    }
+}
+
+let worker: ReturnType<typeof setInterval> | null = null;
+
+// Retries are picked up by a timer that doesn't keep the process alive on its own.
+// The server starts it on boot, so retries left pending by a restart go out too.
+export function startDeliveryWorker() {
+    if (!worker) {
+        worker = setInterval(() => dispatchDeliveries().catch(e => console.log(e)), pollInterval * 1000);
+        worker.unref();
+    }
+
+    dispatchDeliveries().catch(e => console.log(e));
+}
+
+/**
+ * Queues an event for every endpoint of the app subscribed to it and starts
+ * sending right away. Webhooks never fail the operation that raised them, so
+ * errors are only logged.
+ */
+export async function emitEvent(appId: string, event: WebhookEvent, data: Record<string, unknown>) {
+    try {
+        const endpoints = (await getWebhookRepository().listEndpoints(appId))
+            .filter(endpoint => endpoint.enabled && endpoint.events.includes(event));
+
+        if (!endpoints.length) {
+            return;
+        }
+
+        const now = new Date();
+        const payload = JSON.stringify({ id: crypto.randomUUID(), type: event, appId, createdAt: now.toISOString(), data });
+
+        await getWebhookRepository().enqueue(endpoints.map(endpoint => ({
+            id: crypto.randomUUID(),
+            appId,
+            endpointId: endpoint.id,
+            event,
+            payload,
+            status: "pending",
+            attempts: 0,
+            nextAttemptAt: now,
+            createdAt: now,
+            expiresAt: new Date(now.getTime() + deliveryTTL * 1000),
+        })));
+
+        startDeliveryWorker();
+    } catch (e) {
+        console.log(e);
+    }
+}
+
+/** Raises an account event with every app the account joined. */
+export async function emitAccountEvent(accountId: string, event: WebhookEvent, data: Record<string, unknown>) {
+    const account = await getAccount(accountId).catch(e => {
+        console.log(e);
+        return null;
+    });
+
+    for (const { appId } of account?.apps || []) {
+        await emitEvent(appId, event, { accountId, ...data });
+    }
+}
+
+export async function listDeliveries({ appId, endpointId, status, first, after }: { appId: string; endpointId?: string | null; status?: string | null; first?: number | null; after?: string | null }) {
+    if (status && !deliveryStatuses.includes(status as WebhookDeliveryStatus)) {
+        throw new BadRequestError(`Status must be one of ${deliveryStatuses.join(", ")}`);
+    }
+
+    const limit = getPageSize(first);
+
+    const deliveries = await getWebhookRepository().listDeliveries({
+        appId,
+        endpointId: endpointId || undefined,
+        status: (status || undefined) as WebhookDeliveryStatus | undefined,
+        after: after ? decodeCursor(after) : undefined,
+        limit: limit + 1,
+    });
+
+    return toPage(deliveries, limit);
+}
+
+/**
+ * Sends a delivery again with its original payload, with a fresh set of
+ * attempts. Deliveries that are still being retried are left alone.
+ */
+export async function replayDelivery(appId: string, id: string) {
+    const repository = getWebhookRepository();
+    const delivery = await repository.findDelivery(appId, id);
+
+    if (!delivery) {
+        throw new NotFoundError("Unknown webhook delivery");
+    }
+
+    if (delivery.status === "pending") {
+        throw new BadRequestError("Delivery is still being retried");
+    }
+
+    const now = new Date();
+    const update = {
+        status: "pending" as const,
+        attempts: 0,
+        nextAttemptAt: now,
+        error: null,
+        expiresAt: new Date(now.getTime() + deliveryTTL * 1000),
+    };
+
+    await repository.updateDelivery(id, update);
+    startDeliveryWorker();
+
+    return { ...delivery, ...update };
+}
@@ -0,0 +1,16 @@
+import { defineConfig, mergeConfig } from 'vitest/config';
+import viteConfig from './vite.config';
+
+export default mergeConfig(viteConfig, defineConfig({
+    test: {
+        environment: 'node',
+        // Tests run against the in-memory repositories and wallets, no Mongo or Circle needed
+        env: {
+            STORAGE: 'memory',
+            WALLET_PROVIDER: 'memory',
+            SESSION_SECRET: 'test-session-secret',
+            IV_KEY: '000102030405060708090a0b0c0d0e0f',
+            KDF_COST: '1024',
+        },
+    },
+}));